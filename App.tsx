@@ -1,11 +1,29 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { DndContext, DragEndEvent, closestCenter } from '@dnd-kit/core';
+import { SortableContext, arrayMove, rectSortingStrategy, useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
 import { StickerSet, ViewState, CollectionStatus } from './types';
 import { StickerEditor } from './components/StickerEditor';
 import { Button } from './components/Button';
-import { getAllStickerSets, saveStickerSet, saveStickerSets, deleteStickerSet, clearAllStickerSets } from './services/storage';
-import { compressExistingImage } from './utils/imageCompression';
-import { githubSync } from './services/githubSync';
+import { SnapshotReason, SnapshotRecord, applyStickerSetChanges, createSnapshot, deleteDraft, getAllStickerSets, saveStickerSet, saveStickerSets, deleteStickerSet, clearAllStickerSets, getImageStorageStats } from './services/storage';
+import { BackupFile, createBackup, parseBackup, restoreBackupImages } from './services/backup';
+import { useImageUrl } from './hooks/useImageUrl';
+import { useSyncStatus } from './hooks/useSyncStatus';
+import { useSortableSensors } from './hooks/useSortableSensors';
+import { AiSettingsDialog } from './components/AiSettingsDialog';
+import { RevisionHistoryDialog } from './components/RevisionHistoryDialog';
+import { SnapshotDialog } from './components/SnapshotDialog';
+import { CompressionDialog } from './components/CompressionDialog';
+import { CompressionReportDialog } from './components/CompressionReportDialog';
+import { SyncConflictDialog } from './components/SyncConflictDialog';
+import { SyncStatusIndicator } from './components/SyncStatusIndicator';
+import { SyncSettingsDialog } from './components/SyncSettingsDialog';
+import { syncService } from './services/syncService';
+import { ConflictChoices, SyncConflict, touchStickerSet } from './services/syncMerge';
+import { downloadBlob } from './utils/download';
+import { createSetFromLinePackage, readLinePackage } from './services/lineImport';
+import { CompressionJobResult, CompressionJobState, createCompressionJob, discardCompressionJob, loadCompressionJob, runCompressionJob } from './services/compressionJob';
 
 // Sorting helper for Series: English (A-Z) then Chinese
 const sortSeries = (a: string, b: string) => {
@@ -22,49 +40,47 @@ const sortSeries = (a: string, b: string) => {
   }
 };
 
+// Lazily loaded preview thumbnail for the dashboard cards
+const CollectionThumbnail = ({ imageId }: { imageId?: string }) => {
+  const url = useImageUrl(imageId);
+  return url
+    ? <img src={url} className="w-full h-full object-contain p-1" />
+    : <div className="w-1 h-1 bg-[#E5E0D8] rounded-full"></div>;
+};
+
 // Collection Card Component
 const CollectionCard = ({
   set,
   onClick,
   onDelete,
-  onSwapClick,
-  isSwapMode,
-  isSelectedForSwap,
   getStatusLabel,
-  getStatusColor
+  getStatusColor,
+  locked
 }: any) => {
 
   const [isDeleting, setIsDeleting] = React.useState(false);
+  // Sortable on the dashboard, dragged by its handle; not while a compression run rewrites the sets
+  const { attributes, listeners, setNodeRef, setActivatorNodeRef, transform, transition, isDragging } = useSortable({ id: set.id, disabled: locked });
 
   const handleCardClick = (e: React.MouseEvent) => {
     // Safety check: if the click originated from a button, ignore it here
     // This acts as a backup even if stopPropagation fails
     if ((e.target as HTMLElement).closest('button')) return;
-
-    // If in swap mode, clicking the body should trigger swap
-    if (isSwapMode) {
-      onSwapClick(set.id);
-    } else {
-      onClick(set.id);
-    }
+    onClick(set.id);
   };
 
   return (
     <div
-      className={`bg-white p-8 border group transition-all duration-500 cursor-pointer relative flex flex-col h-full
-        ${isSelectedForSwap
-          ? 'border-[#7D7489] shadow-[0_10px_40px_rgba(125,116,137,0.15)] transform -translate-y-1'
-          : isSwapMode
-            ? 'border-[#F3F0EB] hover:border-[#7D7489] opacity-80 hover:opacity-100'
-            : 'border-[#F3F0EB] hover:border-[#7D7489] hover:shadow-[0_10px_40px_rgba(125,116,137,0.08)]'
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition, zIndex: isDragging ? 50 : undefined }}
+      className={`bg-white p-8 border group transition-[border-color,box-shadow] duration-500 cursor-pointer relative flex flex-col h-full
+        ${isDragging
+          ? 'border-[#7D7489] shadow-[0_10px_40px_rgba(125,116,137,0.15)]'
+          : 'border-[#F3F0EB] hover:border-[#7D7489] hover:shadow-[0_10px_40px_rgba(125,116,137,0.08)]'
         }
       `}
       onClick={handleCardClick}
     >
-      {/* Swap Selection Indicator Overlay */}
-      {isSwapMode && !isSelectedForSwap && (
-        <div className="absolute inset-0 bg-[#7D7489] opacity-0 group-hover:opacity-5 pointer-events-none transition-opacity"></div>
-      )}
 
       <div className="flex justify-between items-start mb-8">
         <div className="flex-1 pr-6">
@@ -88,16 +104,14 @@ const CollectionCard = ({
 
         {/* Actions Container */}
         <div className="flex flex-col items-end gap-3 z-30 relative shrink-0">
-          {/* Swap Button */}
+          {/* Drag Handle */}
           <button
             type="button"
-            onClick={(e) => {
-              e.preventDefault();
-              e.stopPropagation();
-              onSwapClick(set.id);
-            }}
-            className={`p-2 transition-all duration-300 rounded-full hover:bg-[#F3F0EB] ${isSelectedForSwap ? 'text-[#7D7489] rotate-180 bg-[#F3F0EB]' : 'text-[#F3F0EB] hover:text-[#9F97A8]'}`}
-            title="Swap / Reorder"
+            ref={setActivatorNodeRef}
+            {...attributes}
+            {...listeners}
+            className={`p-2 transition-all duration-300 rounded-full hover:bg-[#F3F0EB] touch-none cursor-grab active:cursor-grabbing ${isDragging ? 'text-[#7D7489] bg-[#F3F0EB]' : 'text-[#E5E0D8] hover:text-[#9F97A8]'}`}
+            title="拖曳以調整順序（鍵盤：空白鍵拿起，方向鍵移動）"
           >
             <svg width="16" height="16" viewBox="0 0 15 15" fill="none">
               <path d="M7.5 2C7.77614 2 8 2.22386 8 2.5V12.5C8 12.7761 7.77614 13 7.5 13C7.22386 13 7 12.7761 7 12.5V2.5C7 2.22386 7.22386 2 7.5 2ZM2.5 5.5C2.5 5.22386 2.72386 5 3 5H12C12.2761 5 12.5 5.22386 12.5 5.5C12.5 5.77614 12.2761 6 12 6H3C2.72386 6 2.5 5.77614 2.5 5.5ZM3 9.5C2.72386 9.5 2.5 9.72386 2.5 10C2.5 10.2761 2.72386 10.5 3 10.5H12C12.2761 10.5 12.5 10.2761 12.5 10C12.5 9.72386 12.2761 9.5 12 9.5H3Z" fill="currentColor" fillRule="evenodd" clipRule="evenodd"></path>
@@ -126,7 +140,7 @@ const CollectionCard = ({
                 : 'opacity-0 group-hover:opacity-100 text-[#E5E0D8] hover:text-[#7D7489] hover:bg-[#F3F0EB]'
               }
             `}
-            title={isDeleting ? "Confirm Delete" : "Delete Collection"}
+            title={isDeleting ? "Confirm Delete (a snapshot is kept)" : "Delete Collection"}
           >
             {isDeleting ? (
               <>
@@ -140,19 +154,33 @@ const CollectionCard = ({
         </div>
       </div>
 
-      <div className="grid grid-cols-5 gap-2 mb-8 opacity-40 group-hover:opacity-100 transition-opacity duration-700 flex-1">
-        {set.items.slice(0, 5).map((item: any) => (
-          <div key={item.id} className="aspect-square bg-[#FDFBF7] flex items-center justify-center border border-[#F3F0EB] hover:border-[#E5E0D8]">
-            {item.imageUrl ? <img src={item.imageUrl} className="w-full h-full object-contain p-1" /> : <div className="w-1 h-1 bg-[#E5E0D8] rounded-full"></div>}
+      {set.mainImage ? (
+        // Main image as the cover, next to the first items
+        <div className="grid grid-cols-5 gap-2 mb-8 flex-1">
+          <div className="col-span-2 row-span-2 aspect-square bg-[#FDFBF7] flex items-center justify-center border border-[#F3F0EB]">
+            <CollectionThumbnail imageId={set.mainImage.imageId} />
           </div>
-        ))}
-      </div>
+          {set.items.slice(0, 6).map((item: any) => (
+            <div key={item.id} className="aspect-square bg-[#FDFBF7] flex items-center justify-center border border-[#F3F0EB] hover:border-[#E5E0D8] opacity-40 group-hover:opacity-100 transition-opacity duration-700">
+              <CollectionThumbnail imageId={item.imageId} />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-5 gap-2 mb-8 opacity-40 group-hover:opacity-100 transition-opacity duration-700 flex-1">
+          {set.items.slice(0, 5).map((item: any) => (
+            <div key={item.id} className="aspect-square bg-[#FDFBF7] flex items-center justify-center border border-[#F3F0EB] hover:border-[#E5E0D8]">
+              <CollectionThumbnail imageId={item.imageId} />
+            </div>
+          ))}
+        </div>
+      )}
 
       <div className="mt-auto">
         <div className="flex justify-between items-center text-[10px] font-cormorant text-[#9F97A8] uppercase tracking-[0.2em] pt-5 border-t border-[#F9F8F6] group-hover:border-[#E6E4E9]">
           <span>{set.itemCount} Éléments</span>
           <span className="text-[#7D7489] opacity-0 group-hover:opacity-100 transition-all duration-500 transform translate-x-2 group-hover:translate-x-0">
-            {isSwapMode ? (isSelectedForSwap ? 'Selected' : 'Swap Here') : 'Ouvrir'}
+            Ouvrir
           </span>
         </div>
       </div>
@@ -169,21 +197,45 @@ const App: React.FC = () => {
   const [filterType, setFilterType] = useState<'ALL' | 'Sticker' | 'Emoji'>('ALL');
   const [filterSeries, setFilterSeries] = useState<string>('ALL');
 
-  // New state for click-to-swap
-  const [swapSourceId, setSwapSourceId] = useState<string | null>(null);
-
   // Compression state
   const [isCompressing, setIsCompressing] = useState(false);
   const [compressionProgress, setCompressionProgress] = useState<{ current: number; total: number } | null>(null);
-
-  // GitHub Sync state
-  const [isLoggedIn, setIsLoggedIn] = useState(githubSync.isLoggedIn());
+  const [isCancellingCompression, setIsCancellingCompression] = useState(false);
+  const [interruptedCompression, setInterruptedCompression] = useState<CompressionJobState | null>(null);
+  const [compressionReport, setCompressionReport] = useState<CompressionJobResult | null>(null);
+  const compressionAbortRef = useRef<AbortController | null>(null);
+
+  // Cloud Sync state
+  const [isConnected, setIsConnected] = useState(syncService.isConnected());
+  const [showSyncSettings, setShowSyncSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [showCompression, setShowCompression] = useState(false);
+  const [syncTarget, setSyncTarget] = useState(0);
   const [isSyncing, setIsSyncing] = useState(false);
-  const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
+  const [autoSync, setAutoSync] = useState(syncService.isAutoSyncEnabled());
+  const syncStatus = useSyncStatus();
+  const [conflictRequest, setConflictRequest] = useState<{
+    conflicts: SyncConflict[];
+    resolve: (choices: ConflictChoices | null) => void;
+  } | null>(null);
+
+  // AI provider settings dialog
+  const [showAiSettings, setShowAiSettings] = useState(false);
 
   // File input ref for import
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // LINE-style package import (ZIP or folder) into a new set
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [lineImportProgress, setLineImportProgress] = useState<{ current: number; total: number } | null>(null);
+
+  useEffect(() => {
+    // Not in React's input typings
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
   // Load data asynchronously on mount
   useEffect(() => {
     getAllStickerSets().then(loadedSets => {
@@ -194,8 +246,30 @@ const App: React.FC = () => {
       }));
       setSets(setsWithOrder);
     });
+
+    // A compression run cut short by a cancel or by closing the page can be resumed
+    loadCompressionJob()
+      .then(job => { if (job) setInterruptedCompression(job); })
+      .catch(err => console.error('Failed to load compression job', err));
   }, []);
 
+  // Opens the conflict dialog and waits for the user's choices
+  const requestConflictResolution = (conflicts: SyncConflict[]) =>
+    new Promise<ConflictChoices | null>(resolve => setConflictRequest({ conflicts, resolve }));
+
+  // Auto sync waits while a set is open, since the editor works on its own copy
+  const viewRef = useRef(view);
+  viewRef.current = view;
+
+  useEffect(() => {
+    if (!isConnected || !autoSync) return;
+    return syncService.startAutoSync({
+      resolveConflicts: requestConflictResolution,
+      onSynced: result => setSets(result.sets),
+      canSync: () => viewRef.current === 'LIST'
+    });
+  }, [isConnected, autoSync, syncTarget]);
+
   const seriesList = useMemo(() => {
     const list = Array.from(new Set(sets.map(s => s.series).filter(Boolean)));
     const sorted = list.sort(sortSeries);
@@ -211,26 +285,40 @@ const App: React.FC = () => {
     });
   }, [sets, filterStatus, filterType, filterSeries]);
 
-  // Calculate total data size
-  const totalDataSize = useMemo(() => {
-    let totalBytes = 0;
-    let imageCount = 0;
-
-    sets.forEach(set => {
-      set.items.forEach(item => {
-        if (item.imageUrl) {
-          // Calculate size from base64 data URL
-          // base64 encoding adds ~33% overhead, so actual data = length * 3/4
-          totalBytes += (item.imageUrl.length * 3) / 4;
-          imageCount++;
-        }
-      });
-    });
+  // Calculate total data size (previews and originals, each unique image counted once)
+  const [totalDataSize, setTotalDataSize] = useState({ totalMB: '0.00', imageCount: 0 });
 
-    const totalMB = totalBytes / (1024 * 1024);
-    return { totalMB: totalMB.toFixed(2), imageCount };
+  useEffect(() => {
+    let cancelled = false;
+    getImageStorageStats().then(stats => {
+      if (cancelled) return;
+      const totalMB = stats.bytes / (1024 * 1024);
+      setTotalDataSize({ totalMB: totalMB.toFixed(2), imageCount: stats.imageCount });
+    }).catch(err => console.error('Failed to compute data size', err));
+
+    return () => {
+      cancelled = true;
+    };
   }, [sets]);
 
+  // Stamps updatedAt on local edits, so sync merges know what changed
+  const touch = (next: StickerSet) => touchStickerSet(sets.find(s => s.id === next.id), next);
+
+  // Puts a new set at the top of the dashboard and opens it in the editor
+  const addNewSet = async (newSet: StickerSet) => {
+    // Ordered before the current first set, so no other set is rewritten. Orders come from
+    // storage rather than `sets`, which is stale after a long import.
+    const stored = await getAllStickerSets();
+    const firstOrder = Math.min(0, ...stored.map(s => s.order ?? 0));
+    const created = touchStickerSet(undefined, { ...newSet, order: firstOrder - 1 });
+
+    await saveStickerSet(created);
+    setSets(prev => [created, ...prev.filter(s => s.id !== created.id)]);
+    syncService.requestSync();
+    setActiveSetId(newSet.id);
+    setView('EDITOR');
+  };
+
   const handleCreateNew = () => {
     const id = Date.now().toString();
 
@@ -257,130 +345,173 @@ const App: React.FC = () => {
       }))
     };
 
-    // Update orders: shift everything down
-    const updatedSets = sets.map(s => ({ ...s, order: (s.order || 0) + 1 }));
-    const finalSets = [{ ...newSet, order: 0 }, ...updatedSets];
+    addNewSet(newSet);
+  };
 
-    // Save all to DB to persist order
-    saveStickerSets(finalSets).then(() => {
-      setSets(finalSets);
-      setActiveSetId(id);
-      setView('EDITOR');
-    });
+  const handleLinePackagePicked = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    // Reset so picking the same package again fires onChange
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      // The ZIP input gives one file, the folder input every file inside the folder
+      const content = await readLinePackage(e.target === zipInputRef.current ? files[0] : files);
+      const extras = [content.main && 'main', content.tab && 'tab'].filter(Boolean).join('、');
+      const skippedText = content.skipped.length > 0
+        ? `\n\n以下 ${content.skipped.length} 個檔案不會匯入：\n${content.skipped.slice(0, 10).map(f => `・${f.name}（${f.reason}）`).join('\n')}${content.skipped.length > 10 ? '\n…' : ''}`
+        : '';
+      if (!window.confirm(
+        `準備從「${content.name}」建立新的貼圖集：\n${content.items.size} 張編號圖片${extras ? `，另有 ${extras} 圖片` : ''}。${skippedText}\n\n按「確定」開始匯入。`
+      )) return;
+
+      setLineImportProgress({ current: 0, total: content.items.size + (content.main ? 1 : 0) + (content.tab ? 1 : 0) });
+      const { set, failed } = await createSetFromLinePackage(
+        content,
+        Date.now().toString(),
+        { series: filterSeries !== 'ALL' ? filterSeries : '' },
+        (current, total) => setLineImportProgress({ current, total })
+      );
+      await addNewSet(set);
+
+      if (failed.length > 0) {
+        alert(`⚠️ 已建立貼圖集，但有 ${failed.length} 張圖片處理失敗：\n${failed.map(f => `・${f.name}：${f.message}`).join('\n')}`);
+      }
+    } catch (error: any) {
+      console.error('LINE package import failed:', error);
+      alert(`❌ 匯入失敗：${error.message || '未知錯誤'}`);
+    } finally {
+      setLineImportProgress(null);
+    }
   };
 
-  const handleSaveSet = async (updatedSet: StickerSet) => {
+  // The editor works on its own copy, so saving it would bring back the previews a running compression replaced
+  const handleOpenSet = (id: string) => {
+    if (isCompressing) {
+      alert('正在壓縮圖片，請等壓縮完成或取消後再開啟貼圖集。');
+      return;
+    }
+    setActiveSetId(id);
+    setView('EDITOR');
+  };
+
+  const handleSaveSet = async (editedSet: StickerSet) => {
+    const updatedSet = touch(editedSet);
     await saveStickerSet(updatedSet);
     setSets(prev => prev.map(s => s.id === updatedSet.id ? updatedSet : s));
+    syncService.requestSync();
     setView('LIST');
   };
 
+  /**
+   * Keeps a local copy of all sets before an operation that overwrites them
+   * @returns false when the snapshot failed and the user chose not to go on
+   */
+  const takeSnapshot = async (reason: SnapshotReason, detail?: string): Promise<boolean> => {
+    try {
+      await createSnapshot(reason, detail);
+      return true;
+    } catch (err) {
+      console.error('Snapshot failed', err);
+      return confirm('無法建立本地快照，這次操作將無法復原。\n\n仍要繼續嗎？');
+    }
+  };
+
   const handleDeleteSet = async (id: string) => {
     // Confirm dialog is handled inline by the button now
+    if (!await takeSnapshot('delete', sets.find(s => s.id === id)?.title)) return;
     await deleteStickerSet(id);
+    await deleteDraft(id);
     setSets(prev => prev.filter(s => s.id !== id));
-    if (swapSourceId === id) setSwapSourceId(null);
+    syncService.requestSync();
   };
 
-  const handleSwapClick = async (id: string) => {
-    if (swapSourceId === null) {
-      // Select for swap
-      setSwapSourceId(id);
-    } else if (swapSourceId === id) {
-      // Deselect
-      setSwapSourceId(null);
-    } else {
-      // Perform Swap
-      const indexA = sets.findIndex(s => s.id === swapSourceId);
-      const indexB = sets.findIndex(s => s.id === id);
-
-      if (indexA !== -1 && indexB !== -1) {
-        const newSets = [...sets];
-
-        // Swap logic using orders works best if we ensure orders are unique/valid
-        // Simple swap of order property:
-        const orderA = newSets[indexA].order || 0;
-        const orderB = newSets[indexB].order || 0;
-
-        newSets[indexA] = { ...newSets[indexA], order: orderB };
-        newSets[indexB] = { ...newSets[indexB], order: orderA };
-
-        // Re-sort the array based on order
-        const sortedSets = newSets.sort((a, b) => (a.order || 0) - (b.order || 0));
-
-        // Save to DB with proper error handling
-        try {
-          await saveStickerSets(sortedSets);
-          setSets(sortedSets);
-        } catch (err) {
-          console.error("Failed to save swap", err);
-          alert("交換位置儲存失敗，請重試");
-        }
-      }
-      setSwapSourceId(null);
+  const sensors = useSortableSensors();
+
+  /**
+   * Moves the dragged collection to the drop position and renumbers `order` for all of them
+   * (with filters on, the drop target still decides the position in the full list)
+   */
+  const handleSetDragEnd = async ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    const from = sets.findIndex(s => s.id === active.id);
+    const to = sets.findIndex(s => s.id === over.id);
+    if (from === -1 || to === -1) return;
+
+    const previousSets = sets;
+    const reorderedSets = arrayMove<StickerSet>(sets, from, to).map((set, index) => set.order === index ? set : touch({ ...set, order: index }));
+    const changedSets = reorderedSets.filter(set => !previousSets.includes(set));
+    setSets(reorderedSets);
+
+    try {
+      await saveStickerSets(changedSets);
+      syncService.requestSync();
+    } catch (err) {
+      console.error("Failed to save order", err);
+      alert("排序儲存失敗，請重試");
+      setSets(previousSets);
     }
   };
 
   // --- Compress All Images ---
 
-  const handleCompressAll = async () => {
-    if (!confirm('這將壓縮所有現有圖片以減少檔案大小。\n\n壓縮後圖片品質會略微下降，但可減少 70-80% 的儲存空間。\n\n確定要繼續嗎？')) {
-      return;
-    }
-
+  /**
+   * Runs a new or interrupted compression job, refreshing each set as soon as it is saved
+   */
+  const runCompression = async (job: CompressionJobState) => {
+    const controller = new AbortController();
+    compressionAbortRef.current = controller;
+    setInterruptedCompression(null);
     setIsCompressing(true);
-    let processedCount = 0;
-    let totalImages = 0;
+    setCompressionProgress({ current: 0, total: 0 });
 
-    // Count total images
-    sets.forEach(set => {
-      set.items.forEach(item => {
-        if (item.imageUrl) totalImages++;
+    try {
+      const result = await runCompressionJob(job, {
+        signal: controller.signal,
+        onProgress: (current, total) => setCompressionProgress({ current, total }),
+        onSetSaved: saved => setSets(prev => prev.map(s => s.id === saved.id ? saved : s))
       });
-    });
+      if (result.cancelled) setInterruptedCompression(job);
+      setCompressionReport(result);
+    } catch (err) {
+      console.error('批次壓縮失敗:', err);
+      alert('壓縮過程中發生錯誤，已完成的貼圖集都已儲存，可以稍後繼續。');
+      setInterruptedCompression(job);
+    } finally {
+      compressionAbortRef.current = null;
+      setIsCompressing(false);
+      setIsCancellingCompression(false);
+      setCompressionProgress(null);
+      syncService.requestSync();
+    }
+  };
+
+  const handleCompressAll = async () => {
+    if (!confirm('這將重新壓縮所有預覽圖以減少檔案大小。\n\n有保存原始檔的圖片會從原始檔重新產生預覽，原始檔不會被修改。\n沒有原始檔的舊圖片壓縮後品質會略微下降。\n\n確定要繼續嗎？')) {
+      return;
+    }
 
-    if (totalImages === 0) {
+    const job = createCompressionJob(sets);
+    if (!job) {
       alert('沒有找到需要壓縮的圖片！');
-      setIsCompressing(false);
       return;
     }
 
-    setCompressionProgress({ current: 0, total: totalImages });
+    if (!await takeSnapshot('compress')) return;
+    await runCompression(job);
+  };
 
-    try {
-      const updatedSets = await Promise.all(
-        sets.map(async (set) => {
-          const updatedItems = await Promise.all(
-            set.items.map(async (item) => {
-              if (item.imageUrl) {
-                try {
-                  const compressed = await compressExistingImage(item.imageUrl, 800, 0.85);
-                  processedCount++;
-                  setCompressionProgress({ current: processedCount, total: totalImages });
-                  return { ...item, imageUrl: compressed };
-                } catch (err) {
-                  console.error('壓縮圖片失敗:', err);
-                  processedCount++;
-                  setCompressionProgress({ current: processedCount, total: totalImages });
-                  return item; // Keep original on error
-                }
-              }
-              return item;
-            })
-          );
-          return { ...set, items: updatedItems };
-        })
-      );
+  const handleCancelCompression = () => {
+    compressionAbortRef.current?.abort();
+    setIsCancellingCompression(true);
+  };
 
-      await saveStickerSets(updatedSets);
-      setSets(updatedSets);
-      alert(`✅ 壓縮完成！\n\n成功處理 ${totalImages} 張圖片。\n請使用「匯出」功能備份您的資料。`);
+  const handleDiscardCompression = async () => {
+    try {
+      await discardCompressionJob();
+      setInterruptedCompression(null);
     } catch (err) {
-      console.error('批次壓縮失敗:', err);
-      alert('壓縮過程中發生錯誤，請重試。');
-    } finally {
-      setIsCompressing(false);
-      setCompressionProgress(null);
+      console.error('Failed to discard compression job', err);
     }
   };
 
@@ -388,104 +519,92 @@ const App: React.FC = () => {
 
   const handleExport = async () => {
     try {
-      const allData = await getAllStickerSets();
+      const allData = await createBackup(await getAllStickerSets());
       const jsonString = JSON.stringify(allData, null, 2);
       const blob = new Blob([jsonString], { type: "application/json" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
       const dateStr = new Date().toISOString().slice(0, 10);
-      link.href = url;
-      link.download = `atelier-backup-${dateStr}.json`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, `atelier-backup-${dateStr}.json`);
     } catch (err) {
       console.error("Export failed", err);
       alert("匯出失敗，請稍後再試。");
     }
   };
 
-  // --- GitHub Sync Functions ---
-
-  const handleGitHubLogin = async () => {
-    const token = prompt('請輸入 GitHub Personal Access Token:\n\n如何取得：\n1. 前往 github.com/settings/tokens\n2. 點擊 "Generate new token (classic)"\n3. 勾選 "gist" 權限\n4. 生成並複製 Token');
+  // --- Cloud Sync Functions ---
 
-    if (!token) return;
-
-    try {
-      setIsSyncing(true);
-      await githubSync.login(token);
-      setIsLoggedIn(true);
-      alert('✅ 登入成功！\n\n您現在可以使用雲端同步功能。');
-    } catch (error: any) {
-      alert(`登入失敗：${error.message}`);
-    } finally {
-      setIsSyncing(false);
-    }
+  const handleSyncConnected = () => {
+    setIsConnected(true);
+    // Restarts auto sync against the new target
+    setSyncTarget(target => target + 1);
   };
 
-  const handleGitHubLogout = () => {
-    if (confirm('確定要登出 GitHub 嗎？\n\n本地資料不會被刪除，但將無法同步。')) {
-      githubSync.logout();
-      setIsLoggedIn(false);
-      setLastSyncTime(null);
+  const handleDisconnect = async () => {
+    if (confirm(`確定要中斷與 ${syncService.getBackend().describe()} 的連線嗎？\n\n本地資料不會被刪除，但將無法同步。`)) {
+      await syncService.disconnect();
+      setIsConnected(false);
     }
   };
 
-  const handleResetSync = () => {
-    if (confirm('⚠️ 重置同步功能說明：\n\n這會清除：\n• GitHub Token（登入資訊）\n• Gist ID（雲端連結）\n\n不會影響：\n✓ 本地貼圖資料\n✓ 雲端備份資料\n\n適用情況：\n• Token 已過期或權限錯誤\n• 切換不同的 GitHub 帳號\n• 解決同步問題\n\n重置後需要重新登入才能同步。\n\n確定要繼續嗎？')) {
-      // Clear both token and gist ID
-      localStorage.removeItem('latelier_github_token');
-      localStorage.removeItem('latelier_gist_id');
-      githubSync.logout();
-      setIsLoggedIn(false);
-      setLastSyncTime(null);
-      alert('✅ 同步設定已清除！\n\n請重新登入 GitHub 即可使用。');
-    }
+  const handleToggleAutoSync = () => {
+    syncService.setAutoSyncEnabled(!autoSync);
+    setAutoSync(!autoSync);
   };
 
-  const handleUploadToGist = async () => {
-    if (!isLoggedIn) {
-      alert('請先登入 GitHub');
+  const handleSync = async () => {
+    if (!isConnected) {
+      alert('請先連線雲端');
       return;
     }
 
     try {
       setIsSyncing(true);
-      const allSets = await getAllStickerSets();
-      await githubSync.upload(allSets);
-      setLastSyncTime(new Date());
-      alert('✅ 上傳成功！\n\n資料已同步到 GitHub Gist。');
+      const result = await syncService.sync(requestConflictResolution);
+
+      if (!result) {
+        alert('已取消同步，本地與雲端資料都沒有變更。');
+        return;
+      }
+
+      setSets(result.sets);
+
+      const changes = [
+        result.pulled ? '已套用雲端的變更' : null,
+        result.pushed ? '已上傳本地的變更' : null,
+        result.resolvedConflicts > 0 ? `已解決 ${result.resolvedConflicts} 個衝突` : null
+      ].filter(Boolean);
+      alert(`✅ 同步完成！\n\n${changes.length > 0 ? changes.join('\n') : '本地與雲端資料已是最新。'}`);
     } catch (error: any) {
-      alert(`上傳失敗：${error.message}`);
+      alert(`同步失敗：${error.message}`);
     } finally {
       setIsSyncing(false);
     }
   };
 
-  const handleDownloadFromGist = async () => {
-    if (!isLoggedIn) {
-      alert('請先登入 GitHub');
+  const handleDownloadFromCloud = async () => {
+    if (!isConnected) {
+      alert('請先連線雲端');
       return;
     }
 
-    if (!confirm('這將從 GitHub Gist 下載資料並覆蓋本地資料。\n\n確定要繼續嗎？')) {
+    if (!confirm('這將從雲端下載資料並覆蓋本地資料（不會合併本地的修改）。\n\n如果只是要同步兩台裝置，請使用「同步」。\n\n確定要繼續嗎？')) {
       return;
     }
 
     try {
       setIsSyncing(true);
-      const remoteSets = await githubSync.download();
+      const backup = await syncService.download();
+      const remoteSets = backup.sets;
 
       if (remoteSets.length === 0) {
-        alert('雲端還沒有備份資料。\n\n請先使用「上傳到雲端」功能。');
+        alert('雲端還沒有備份資料。\n\n請先使用「同步」功能。');
         return;
       }
 
-      await saveStickerSets(remoteSets);
-      setSets(remoteSets);
-      setLastSyncTime(new Date());
+      if (!await takeSnapshot('download')) return;
+      const restoredSets = await restoreBackupImages(backup);
+      await saveStickerSets(restoredSets);
+      await syncService.markSynced(restoredSets);
+      setSets(await getAllStickerSets());
       alert(`✅ 下載成功！\n\n已從雲端還原 ${remoteSets.length} 個貼圖集。`);
     } catch (error: any) {
       alert(`下載失敗：${error.message}`);
@@ -494,6 +613,58 @@ const App: React.FC = () => {
     }
   };
 
+  /**
+   * Writes a cloud revision over the local data
+   */
+  const handleRestoreRevision = async (backup: BackupFile, setIds: string[] | null): Promise<boolean> => {
+    const message = setIds
+      ? `確定要用這個版本覆蓋本地的 ${setIds.length} 個貼圖集嗎？`
+      : `確定要將本地資料還原成這個版本嗎？\n\n不在這個版本中的 ${sets.filter(s => !backup.sets.some(b => b.id === s.id)).length} 個本地貼圖集將被刪除。`;
+    if (!confirm(message)) {
+      return false;
+    }
+
+    try {
+      return await restoreSets(await restoreBackupImages(backup), setIds);
+    } catch (error: any) {
+      alert(`還原失敗：${error.message}`);
+      return false;
+    }
+  };
+
+  const handleRestoreSnapshot = async (snapshot: SnapshotRecord, setIds: string[] | null): Promise<boolean> => {
+    const message = setIds
+      ? `確定要用快照覆蓋 ${setIds.length} 個貼圖集嗎？`
+      : `確定要將本地資料還原成這個快照嗎？\n\n不在快照中的 ${sets.filter(s => !snapshot.sets.some(b => b.id === s.id)).length} 個貼圖集將被刪除。`;
+    if (!confirm(message)) {
+      return false;
+    }
+
+    try {
+      return await restoreSets(snapshot.sets, setIds);
+    } catch (error: any) {
+      alert(`還原失敗：${error.message}`);
+      return false;
+    }
+  };
+
+  /**
+   * Writes restored sets over the local ones (all of them when setIds is null), after a snapshot of the current state
+   * Restored sets are stamped as local edits so the next sync pushes them instead of merging them away
+   */
+  const restoreSets = async (restoredSets: StickerSet[], setIds: string[] | null): Promise<boolean> => {
+    if (!await takeSnapshot('restore')) return false;
+
+    const chosenSets = setIds ? restoredSets.filter(s => setIds.includes(s.id)) : restoredSets;
+    const deletedIds = setIds ? [] : sets.filter(s => !restoredSets.some(r => r.id === s.id)).map(s => s.id);
+
+    await applyStickerSetChanges(chosenSets.map(touch), deletedIds);
+    setSets(await getAllStickerSets());
+    syncService.requestSync();
+    alert(`✅ 已還原 ${chosenSets.length} 個貼圖集。`);
+    return true;
+  };
+
   const handleImportClick = () => {
     // Ensure value is reset so onChange fires even if same file is selected
     if (fileInputRef.current) fileInputRef.current.value = '';
@@ -513,9 +684,18 @@ const App: React.FC = () => {
           return;
         }
 
-        const data = JSON.parse(content);
+        const parsed = JSON.parse(content);
+
+        // Accepts both backup objects and legacy StickerSet[] exports
+        let backup: BackupFile | null = null;
+        try {
+          backup = parseBackup(parsed);
+        } catch {
+          backup = null;
+        }
 
-        if (Array.isArray(data)) {
+        if (backup) {
+          const data = backup.sets;
           // First Check: Import detected
           if (window.confirm(`準備匯入 ${data.length} 個貼圖系列。\n\n按「確定」繼續。\n按「取消」放棄操作。`)) {
 
@@ -526,13 +706,17 @@ const App: React.FC = () => {
               `按「取消」：保留舊資料，僅更新或新增項目 (Merge)。`
             );
 
+            if (!await takeSnapshot('import', file.name)) return;
+
             if (shouldClear) {
               await clearAllStickerSets();
             }
 
-            if (data.length > 0) {
+            const restoredSets = await restoreBackupImages(backup);
+
+            if (restoredSets.length > 0) {
               // Ensure imported data has correct structure
-              const cleanData = data.map((s: any, idx: number) => ({
+              const cleanData = restoredSets.map((s: any, idx: number) => ({
                 ...s,
                 order: typeof s.order === 'number' ? s.order : idx // Ensure order exists
               }));
@@ -542,6 +726,7 @@ const App: React.FC = () => {
             // Refresh data
             const refreshedSets = await getAllStickerSets();
             setSets(refreshedSets);
+            syncService.requestSync();
 
             const actionText = shouldClear ? '還原' : '合併';
             alert(`匯入成功！已${actionText} ${data.length} 筆資料。`);
@@ -665,23 +850,49 @@ const App: React.FC = () => {
             {/* Status Messages */}
             <div className="flex flex-col gap-2 min-h-[40px]">
               {isCompressing && compressionProgress && (
+                <div className="flex flex-col gap-1">
+                  <div className="flex items-center gap-3">
+                    <span className="text-xs text-[#7D7489] font-fangsong">
+                      {isCancellingCompression ? '正在停止並儲存已完成的部分...' : `正在壓縮圖片... ${compressionProgress.current} / ${compressionProgress.total}`}
+                    </span>
+                    {!isCancellingCompression && (
+                      <button onClick={handleCancelCompression} className="text-[10px] text-[#9F97A8] hover:text-red-400 font-fangsong underline">
+                        取消
+                      </button>
+                    )}
+                  </div>
+                  <div className="w-full max-w-xs h-1 bg-[#F3F0EB] rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-[#7D7489] transition-all duration-300"
+                      style={{ width: `${compressionProgress.total > 0 ? (compressionProgress.current / compressionProgress.total) * 100 : 0}%` }}
+                    ></div>
+                  </div>
+                </div>
+              )}
+              {!isCompressing && interruptedCompression && (
+                <div className="flex items-center gap-3 text-xs text-[#7D7489] font-fangsong">
+                  <span>上次的壓縮尚未完成，還有 {interruptedCompression.pendingSetIds.length} 個貼圖集。</span>
+                  <button onClick={() => runCompression(interruptedCompression)} className="text-[#7D7489] hover:text-[#2C2C2C] underline">
+                    繼續
+                  </button>
+                  <button onClick={handleDiscardCompression} className="text-[#9F97A8] hover:text-red-400 underline">
+                    放棄
+                  </button>
+                </div>
+              )}
+              {lineImportProgress && (
                 <div className="flex flex-col gap-1">
                   <span className="text-xs text-[#7D7489] font-fangsong">
-                    正在壓縮圖片... {compressionProgress.current} / {compressionProgress.total}
+                    正在匯入圖片... {lineImportProgress.current} / {lineImportProgress.total}
                   </span>
                   <div className="w-full max-w-xs h-1 bg-[#F3F0EB] rounded-full overflow-hidden">
                     <div
                       className="h-full bg-[#7D7489] transition-all duration-300"
-                      style={{ width: `${(compressionProgress.current / compressionProgress.total) * 100}%` }}
+                      style={{ width: `${(lineImportProgress.current / lineImportProgress.total) * 100}%` }}
                     ></div>
                   </div>
                 </div>
               )}
-              {swapSourceId && !isCompressing && (
-                <span className="text-xs text-[#7D7489] font-fangsong animate-pulse">
-                  請選擇另一個項目進行交換...
-                </span>
-              )}
             </div>
 
             {/* Action Buttons - 手機上堆疊 */}
@@ -698,7 +909,7 @@ const App: React.FC = () => {
               {/* Backup & Compression */}
               <div className="flex flex-wrap items-center gap-2 pb-3 md:pb-0 md:pr-4 md:border-r border-b md:border-b-0 border-[#F3F0EB]">
                 <Button
-                  onClick={handleCompressAll}
+                  onClick={() => setShowCompression(true)}
                   variant="ghost"
                   size="sm"
                   className="text-[10px] md:text-xs text-[#9F97A8] hover:text-[#7D7489] disabled:opacity-50"
@@ -712,70 +923,136 @@ const App: React.FC = () => {
                 <Button onClick={handleImportClick} variant="ghost" size="sm" className="text-[10px] md:text-xs text-[#9F97A8] hover:text-[#7D7489]">
                   匯入
                 </Button>
+                <Button onClick={() => setShowSnapshots(true)} variant="ghost" size="sm" className="text-[10px] md:text-xs text-[#9F97A8] hover:text-[#7D7489]">
+                  快照
+                </Button>
                 <div className="h-3 w-px bg-[#E5E0D8] hidden md:block"></div>
                 <div
                   className="text-[10px] text-[#9F97A8] font-cormorant tracking-wider"
-                  title={`總共 ${totalDataSize.imageCount} 張圖片`}
+                  title={`總共 ${totalDataSize.imageCount} 張不重複圖片（含原始檔）`}
                 >
                   <span className="hidden md:inline">資料：</span>{totalDataSize.totalMB} MB
                 </div>
               </div>
 
-              {/* GitHub Sync */}
+              {/* Cloud Sync */}
               <div className="flex flex-wrap items-center gap-2 pb-3 md:pb-0 md:pr-4 md:border-r border-b md:border-b-0 border-[#F3F0EB]">
-                {isLoggedIn ? (
+                {isConnected ? (
                   <>
                     <Button
-                      onClick={handleUploadToGist}
+                      onClick={handleSync}
                       variant="ghost"
                       size="sm"
                       className="text-[10px] md:text-xs text-[#9F97A8] hover:text-[#7D7489] disabled:opacity-50 flex items-center gap-1"
-                      disabled={isSyncing}
+                      disabled={isSyncing || syncStatus.syncing}
                     >
                       <svg width="10" height="10" viewBox="0 0 15 15" fill="none">
                         <path d="M7.5 1C7.77614 1 8 1.22386 8 1.5V11.2929L11.1464 8.14645C11.3417 7.95118 11.6583 7.95118 11.8536 8.14645C12.0488 8.34171 12.0488 8.65829 11.8536 8.85355L7.85355 12.8536C7.65829 13.0488 7.34171 13.0488 7.14645 12.8536L3.14645 8.85355C2.95118 8.65829 2.95118 8.34171 3.14645 8.14645C3.34171 7.95118 3.65829 7.95118 3.85355 8.14645L7 11.2929V1.5C7 1.22386 7.22386 1 7.5 1Z" fill="currentColor" fillRule="evenodd" clipRule="evenodd"/>
                       </svg>
-                      {isSyncing ? '同步中' : '上傳'}
+                      {isSyncing || syncStatus.syncing ? '同步中' : '同步'}
                     </Button>
                     <Button
-                      onClick={handleDownloadFromGist}
+                      onClick={handleDownloadFromCloud}
                       variant="ghost"
                       size="sm"
                       className="text-[10px] md:text-xs text-[#9F97A8] hover:text-[#7D7489] disabled:opacity-50 flex items-center gap-1"
-                      disabled={isSyncing}
+                      disabled={isSyncing || syncStatus.syncing}
                     >
                       <svg width="10" height="10" viewBox="0 0 15 15" fill="none">
                         <path d="M7.5 14C7.22386 14 7 13.7761 7 13.5V3.70711L3.85355 6.85355C3.65829 7.04882 3.34171 7.04882 3.14645 6.85355C2.95118 6.65829 2.95118 6.34171 3.14645 6.14645L7.14645 2.14645C7.34171 1.95118 7.65829 1.95118 7.85355 2.14645L11.8536 6.14645C12.0488 6.34171 12.0488 6.65829 11.8536 6.85355C11.6583 7.04882 11.3417 7.04882 11.1464 6.85355L8 3.70711V13.5C8 13.7761 7.77614 14 7.5 14Z" fill="currentColor" fillRule="evenodd" clipRule="evenodd"/>
                       </svg>
                       下載
                     </Button>
+                    {syncService.hasHistory() && (
+                      <Button
+                        onClick={() => setShowHistory(true)}
+                        variant="ghost"
+                        size="sm"
+                        className="text-[10px] md:text-xs text-[#9F97A8] hover:text-[#7D7489] disabled:opacity-50"
+                        disabled={isSyncing || syncStatus.syncing}
+                      >
+                        歷史
+                      </Button>
+                    )}
+                    <Button
+                      onClick={handleToggleAutoSync}
+                      variant="ghost"
+                      size="sm"
+                      className={`text-[10px] md:text-xs ${autoSync ? 'text-[#7D7489]' : 'text-[#D8D2CB] hover:text-[#9F97A8]'}`}
+                      title="開啟後會在啟動、切回分頁及儲存後自動同步"
+                    >
+                      {autoSync ? '自動：開' : '自動：關'}
+                    </Button>
+                    <SyncStatusIndicator status={syncStatus} autoSync={autoSync} />
                     <div className="h-3 w-px bg-[#E5E0D8] hidden md:block"></div>
                     <Button
-                      onClick={handleGitHubLogout}
+                      onClick={() => setShowSyncSettings(true)}
+                      variant="ghost"
+                      size="sm"
+                      className="text-[10px] text-[#D8D2CB] hover:text-[#9F97A8] max-w-[160px] truncate"
+                      title={syncService.getBackend().describe()}
+                    >
+                      {syncService.getBackend().describe()}
+                    </Button>
+                    <Button
+                      onClick={handleDisconnect}
                       variant="ghost"
                       size="sm"
                       className="text-[10px] text-[#D8D2CB] hover:text-[#9F97A8]"
                     >
-                      登出
+                      中斷
                     </Button>
                   </>
                 ) : (
                   <>
                     <Button
-                      onClick={handleGitHubLogin}
+                      onClick={() => setShowSyncSettings(true)}
                       variant="ghost"
                       size="sm"
-                      className="text-[10px] md:text-xs text-[#9F97A8] hover:text-[#7D7489] flex items-center gap-1"
+                      className="text-[10px] md:text-xs text-[#9F97A8] hover:text-[#7D7489]"
                     >
-                      <svg width="10" height="10" viewBox="0 0 15 15" fill="none">
-                        <path d="M7.49933 0.25C3.49635 0.25 0.25 3.49593 0.25 7.50024C0.25 10.703 2.32715 13.4206 5.2081 14.3797C5.57084 14.446 5.70302 14.2222 5.70302 14.0299C5.70302 13.8576 5.69679 13.4019 5.69323 12.797C3.67661 13.235 3.25112 11.825 3.25112 11.825C2.92132 10.9874 2.44599 10.7644 2.44599 10.7644C1.78773 10.3149 2.49584 10.3238 2.49584 10.3238C3.22353 10.375 3.60629 11.0711 3.60629 11.0711C4.25298 12.1788 5.30335 11.8588 5.71638 11.6732C5.78225 11.205 5.96962 10.8854 6.17658 10.7043C4.56675 10.5209 2.87415 9.89918 2.87415 7.12104C2.87415 6.32925 3.15677 5.68257 3.62053 5.17563C3.54576 4.99226 3.29697 4.25521 3.69174 3.25691C3.69174 3.25691 4.30015 3.06196 5.68522 3.99973C6.26337 3.83906 6.8838 3.75895 7.50022 3.75583C8.1162 3.75895 8.73619 3.83906 9.31523 3.99973C10.6994 3.06196 11.3069 3.25691 11.3069 3.25691C11.7026 4.25521 11.4538 4.99226 11.3795 5.17563C11.8441 5.68257 12.1245 6.32925 12.1245 7.12104C12.1245 9.9063 10.4292 10.5192 8.81452 10.6985C9.07444 10.9224 9.30633 11.3648 9.30633 12.0413C9.30633 13.0102 9.29742 13.7922 9.29742 14.0299C9.29742 14.2239 9.42828 14.4496 9.79591 14.3788C12.6746 13.4179 14.75 10.7025 14.75 7.50024C14.75 3.49593 11.5036 0.25 7.49933 0.25Z" fill="currentColor" fillRule="evenodd" clipRule="evenodd"/>
-                      </svg>
-                      登入 GitHub
+                      連線雲端
                     </Button>
                   </>
                 )}
               </div>
 
+              {/* AI Settings */}
+              <Button
+                onClick={() => setShowAiSettings(true)}
+                variant="ghost"
+                size="sm"
+                className="text-[10px] md:text-xs text-[#9F97A8] hover:text-[#7D7489]"
+              >
+                設定 AI
+              </Button>
+
+              {/* Create from a LINE-style package */}
+              <input type="file" accept=".zip,application/zip" ref={zipInputRef} className="hidden" onChange={handleLinePackagePicked} />
+              <input type="file" ref={folderInputRef} className="hidden" onChange={handleLinePackagePicked} />
+              <div className="flex items-center gap-2">
+                <Button
+                  onClick={() => zipInputRef.current?.click()}
+                  variant="ghost"
+                  size="sm"
+                  className="text-[10px] md:text-xs text-[#9F97A8] hover:text-[#7D7489] disabled:opacity-50"
+                  disabled={!!lineImportProgress}
+                  title="從 LINE 格式的 ZIP（01.png…、main.png、tab.png）建立新的貼圖集"
+                >
+                  從 ZIP 建立
+                </Button>
+                <Button
+                  onClick={() => folderInputRef.current?.click()}
+                  variant="ghost"
+                  size="sm"
+                  className="text-[10px] md:text-xs text-[#9F97A8] hover:text-[#7D7489] disabled:opacity-50"
+                  disabled={!!lineImportProgress}
+                  title="從含有 01.png…、main.png、tab.png 的資料夾建立新的貼圖集"
+                >
+                  從資料夾建立
+                </Button>
+              </div>
+
               {/* Create Button */}
               <Button onClick={handleCreateNew} variant="outline" className="tracking-[0.2em] text-xs md:text-sm hover:bg-[#F3F0F5] whitespace-nowrap">
                 + Créer
@@ -784,30 +1061,62 @@ const App: React.FC = () => {
           </div>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-12 gap-y-16">
-          {filteredSets.map(set => (
-            <CollectionCard
-              key={set.id}
-              set={set}
-              onClick={(id: string) => { setActiveSetId(id); setView('EDITOR'); }}
-              onDelete={handleDeleteSet}
-              onSwapClick={handleSwapClick}
-              isSwapMode={swapSourceId !== null}
-              isSelectedForSwap={swapSourceId === set.id}
-              getStatusLabel={getStatusLabel}
-              getStatusColor={getStatusColor}
-            />
-          ))}
-
-          {filteredSets.length === 0 && (
-            <div className="col-span-full py-40 text-center">
-              <div className="w-16 h-px bg-[#E5E0D8] mx-auto mb-6"></div>
-              <p className="font-playfair italic text-[#D8D2CB] text-3xl">La collection est vide.</p>
+        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleSetDragEnd}>
+          <SortableContext items={filteredSets.map(set => set.id)} strategy={rectSortingStrategy}>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-12 gap-y-16">
+              {filteredSets.map(set => (
+                <CollectionCard
+                  key={set.id}
+                  set={set}
+                  onClick={handleOpenSet}
+                  onDelete={handleDeleteSet}
+                  getStatusLabel={getStatusLabel}
+                  getStatusColor={getStatusColor}
+                  locked={isCompressing}
+                />
+              ))}
+
+              {filteredSets.length === 0 && (
+                <div className="col-span-full py-40 text-center">
+                  <div className="w-16 h-px bg-[#E5E0D8] mx-auto mb-6"></div>
+                  <p className="font-playfair italic text-[#D8D2CB] text-3xl">La collection est vide.</p>
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          </SortableContext>
+        </DndContext>
       </main>
 
+      {showAiSettings && <AiSettingsDialog onClose={() => setShowAiSettings(false)} />}
+
+      {showSyncSettings && (
+        <SyncSettingsDialog onClose={() => setShowSyncSettings(false)} onConnected={handleSyncConnected} />
+      )}
+
+      {showSnapshots && (
+        <SnapshotDialog currentSets={sets} onClose={() => setShowSnapshots(false)} onRestore={handleRestoreSnapshot} />
+      )}
+
+      {showCompression && (
+        <CompressionDialog sets={sets} onClose={() => setShowCompression(false)} onCompressAll={handleCompressAll} />
+      )}
+
+      {compressionReport && (
+        <CompressionReportDialog result={compressionReport} onClose={() => setCompressionReport(null)} />
+      )}
+
+      {showHistory && (
+        <RevisionHistoryDialog onClose={() => setShowHistory(false)} onRestore={handleRestoreRevision} />
+      )}
+
+      {conflictRequest && (
+        <SyncConflictDialog
+          conflicts={conflictRequest.conflicts}
+          onResolve={(choices) => { conflictRequest.resolve(choices); setConflictRequest(null); }}
+          onCancel={() => { conflictRequest.resolve(null); setConflictRequest(null); }}
+        />
+      )}
+
       <footer className="mt-32 border-t border-[#E5E0D8] py-12 text-center bg-[#FDFBF7]">
         <div className="font-playfair italic text-[#D8D2CB] text-xl">L'Atelier</div>
         <div className="text-xs uppercase tracking-[0.3em] text-[#7D7489] mt-2 font-cormorant">
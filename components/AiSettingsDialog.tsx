@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { AiProviderId, AiSettings } from '../services/ai/types';
+import { createAiProvider, loadAiSettings, saveAiSettings } from '../services/ai/settings';
+
+interface AiSettingsDialogProps {
+  onClose: () => void;
+}
+
+const PROVIDERS: { value: AiProviderId; label: string; hint: string }[] = [
+  { value: 'gemini', label: 'Google Gemini', hint: '需要 Gemini API Key' },
+  { value: 'openai', label: 'OpenAI 相容', hint: 'OpenAI 或本機伺服器（Ollama、LM Studio...）' },
+  { value: 'mock', label: '離線模擬', hint: '固定的示範結果，不需網路' }
+];
+
+const inputClass = "w-full text-sm font-cormorant bg-transparent border-b border-[#E5E0D8] py-2 focus:outline-none focus:border-[#7D7489] placeholder-[#D8D2CB]";
+const labelClass = "block text-xs uppercase tracking-[0.2em] text-[#9F97A8] mb-2 font-cormorant";
+
+export const AiSettingsDialog: React.FC<AiSettingsDialogProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<AiSettings>(loadAiSettings);
+  const [testResult, setTestResult] = useState<string | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const update = (updates: Partial<AiSettings>) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+    setTestResult(null);
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      const names = await createAiProvider(settings).suggestNames({ title: '測試', series: '', description: '', count: 3 });
+      setTestResult(`✓ ${names.join('、')}`);
+    } catch (e: any) {
+      setTestResult(`✕ ${e.message}`);
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = () => {
+    saveAiSettings(settings);
+    onClose();
+  };
+
+  const activeProvider = PROVIDERS.find(p => p.value === settings.provider);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#2C2C2C]/20 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-[#FDFBF7] w-full max-w-md p-8 border border-[#E5E0D8] shadow-[0_10px_40px_rgba(125,116,137,0.15)] space-y-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-2xl font-playfair text-[#2C2C2C]">Réglages IA</h3>
+
+        <div>
+          <label className={labelClass}>Fournisseur</label>
+          <select
+            value={settings.provider}
+            onChange={(e) => update({ provider: e.target.value as AiProviderId })}
+            className="w-full text-sm font-fangsong bg-transparent border-b border-[#E5E0D8] py-2 rounded-none focus:outline-none focus:border-[#7D7489] cursor-pointer"
+          >
+            {PROVIDERS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+          </select>
+          {activeProvider && <p className="mt-2 text-xs text-[#9F97A8] font-fangsong">{activeProvider.hint}</p>}
+        </div>
+
+        {settings.provider !== 'mock' && (
+          <>
+            <div>
+              <label className={labelClass}>Clé API</label>
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+                className={inputClass}
+                placeholder={settings.provider === 'openai' ? '本機伺服器可留空' : 'API Key'}
+              />
+            </div>
+
+            {settings.provider === 'openai' && (
+              <div>
+                <label className={labelClass}>URL du serveur</label>
+                <input
+                  type="url"
+                  value={settings.baseUrl}
+                  onChange={(e) => update({ baseUrl: e.target.value })}
+                  className={inputClass}
+                  placeholder="https://api.openai.com/v1"
+                />
+              </div>
+            )}
+
+            <div>
+              <label className={labelClass}>Modèle</label>
+              <input
+                type="text"
+                value={settings.model}
+                onChange={(e) => update({ model: e.target.value })}
+                className={inputClass}
+                placeholder={settings.provider === 'openai' ? 'gpt-4o-mini' : 'gemini-3-flash-preview'}
+              />
+            </div>
+          </>
+        )}
+
+        <p className="text-[10px] text-[#D8D2CB] font-fangsong">設定只保存在這台裝置的瀏覽器中。</p>
+
+        {testResult && (
+          <div className={`text-xs font-fangsong break-words ${testResult.startsWith('✓') ? 'text-[#7D7489]' : 'text-red-400'}`}>
+            {testResult}
+          </div>
+        )}
+
+        <div className="flex justify-end items-center gap-3 pt-4 border-t border-[#F3F0EB]">
+          <Button onClick={handleTest} variant="ghost" size="sm" disabled={isTesting} className="mr-auto">
+            {isTesting ? 'Test...' : 'Tester'}
+          </Button>
+          <Button onClick={onClose} variant="ghost" size="sm">Annuler</Button>
+          <Button onClick={handleSave} variant="primary" size="sm">Enregistrer</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useCallback, useState } from 'react';
+import { StickerItem } from '../types';
+import { ImageToolDialog, ImageToolTarget } from './ImageToolDialog';
+import { CompressionProfile } from '../services/compressionProfiles';
+import { BackgroundRemovalOptions, DEFAULT_BACKGROUND_REMOVAL, removeBackground } from '../utils/backgroundRemoval';
+
+interface BackgroundRemovalDialogProps {
+  targets: ImageToolTarget[];
+  /** Receives the new images by item id, applied as a single edit */
+  onApply: (images: Record<string, Pick<StickerItem, 'imageId' | 'originalId'>>) => void;
+  onClose: () => void;
+  compressionProfile?: CompressionProfile;
+}
+
+/**
+ * Removes the background of one or several items on a canvas, with a live transparency preview
+ */
+export const BackgroundRemovalDialog: React.FC<BackgroundRemovalDialogProps> = ({ targets, onApply, onClose, compressionProfile }) => {
+  const [options, setOptions] = useState<BackgroundRemovalOptions>(DEFAULT_BACKGROUND_REMOVAL);
+  // Color sampled from the border of the previewed image
+  const [detectedColor, setDetectedColor] = useState<string | null>(null);
+
+  const update = (changes: Partial<BackgroundRemovalOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const process = useCallback(async (source: Blob, previewSize?: number) => {
+    const { blob, keyColor } = await removeBackground(source, options, previewSize);
+    if (previewSize) setDetectedColor(keyColor);
+    // Fully transparent border: nothing to remove, the image stays as it is
+    return keyColor ? blob : null;
+  }, [options]);
+
+  return (
+    <ImageToolDialog
+      title="Suppression du fond"
+      description="將接近背景色的像素變成透明，全部在瀏覽器內處理。原始檔會換成去背後的 PNG，可用 Ctrl+Z 復原。"
+      targets={targets}
+      process={process}
+      onApply={onApply}
+      onClose={onClose}
+      compressionProfile={compressionProfile}
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-xs font-fangsong text-[#7D7489]">
+        <div className="space-y-2">
+          <div className="text-[10px] uppercase tracking-[0.2em] text-[#9F97A8] font-cormorant">Couleur du fond</div>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="radio" checked={options.keyColor === null} onChange={() => update({ keyColor: null })} />
+            自動（取邊緣顏色）
+            {options.keyColor === null && detectedColor && (
+              <span className="w-4 h-4 border border-[#E5E0D8]" style={{ backgroundColor: detectedColor }} title={detectedColor}></span>
+            )}
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="radio"
+              checked={options.keyColor !== null}
+              onChange={() => update({ keyColor: detectedColor || '#ffffff' })}
+            />
+            指定顏色
+            <input
+              type="color"
+              value={options.keyColor || detectedColor || '#ffffff'}
+              onChange={(e) => update({ keyColor: e.target.value })}
+              className="w-8 h-5 p-0 border border-[#E5E0D8] cursor-pointer"
+            />
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-[10px] uppercase tracking-[0.2em] text-[#9F97A8] font-cormorant">Méthode</div>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="radio" checked={options.floodFill} onChange={() => update({ floodFill: true })} />
+            從邊緣填滿（保留圖案內的同色區域）
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="radio" checked={!options.floodFill} onChange={() => update({ floodFill: false })} />
+            所有相近顏色
+          </label>
+        </div>
+
+        <label className="block space-y-2">
+          <span className="flex justify-between">
+            <span className="text-[10px] uppercase tracking-[0.2em] text-[#9F97A8] font-cormorant">Tolérance</span>
+            <span>{options.tolerance}</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={60}
+            value={options.tolerance}
+            onChange={(e) => update({ tolerance: parseInt(e.target.value) })}
+            className="w-full accent-[#7D7489]"
+          />
+        </label>
+
+        <label className="block space-y-2">
+          <span className="flex justify-between">
+            <span className="text-[10px] uppercase tracking-[0.2em] text-[#9F97A8] font-cormorant">Adoucissement</span>
+            <span>{options.feather} px</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={6}
+            value={options.feather}
+            onChange={(e) => update({ feather: parseInt(e.target.value) })}
+            className="w-full accent-[#7D7489]"
+          />
+        </label>
+      </div>
+    </ImageToolDialog>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { StickerItem } from '../types';
+import { Button } from './Button';
+import { ImageAssignment, planImageMapping } from '../utils/imageMapping';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { storeUploadedImage } from '../services/imageUpload';
+import { CompressionProfile } from '../services/compressionProfiles';
+
+interface BulkImportDialogProps {
+  files: File[];
+  items: StickerItem[];
+  /** Receives the new images by item id, applied as a single edit */
+  onApply: (images: Record<string, Pick<StickerItem, 'imageId' | 'originalId'>>) => void;
+  onClose: () => void;
+  /** How the previews are made */
+  compressionProfile?: CompressionProfile;
+}
+
+// Reading and hashing stay on the main thread, a few at a time keeps the page responsive
+const CONCURRENCY = 3;
+
+const FilePreview: React.FC<{ file: File }> = ({ file }) => {
+  const [url, setUrl] = useState<string>();
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+  return <img src={url} className="w-12 h-12 object-contain bg-white border border-[#F3F0EB] shrink-0" />;
+};
+
+/**
+ * Shows how dropped or picked files map onto the items, then compresses and stores them
+ */
+export const BulkImportDialog: React.FC<BulkImportDialogProps> = ({ files, items, onApply, onClose, compressionProfile }) => {
+  // Planned once: applying the images changes `items`, the report must still describe this import
+  const [plan] = useState(() => planImageMapping(files, items));
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [failures, setFailures] = useState<{ assignment: ImageAssignment; message: string }[] | null>(null);
+
+  const replacedCount = plan.assignments.filter(a => a.replacesImage).length;
+  const isImporting = progress !== null && failures === null;
+
+  const handleImport = async () => {
+    setProgress({ done: 0, total: plan.assignments.length });
+    const results = await mapWithConcurrency(
+      plan.assignments,
+      CONCURRENCY,
+      (assignment: ImageAssignment) => storeUploadedImage(assignment.file, compressionProfile),
+      (done, total) => setProgress({ done, total })
+    );
+
+    const images: Record<string, Pick<StickerItem, 'imageId' | 'originalId'>> = {};
+    const failed: { assignment: ImageAssignment; message: string }[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        images[plan.assignments[i].itemId] = result.value;
+      } else {
+        console.error('Bulk import failed:', result.reason);
+        failed.push({ assignment: plan.assignments[i], message: result.reason?.message || '處理失敗' });
+      }
+    });
+
+    if (Object.keys(images).length > 0) {
+      onApply(images);
+    }
+    if (failed.length === 0 && plan.unmapped.length === 0) {
+      onClose();
+      return;
+    }
+    setFailures(failed);
+  };
+
+  const itemLabel = (index: number) =>
+    `NO. ${(index + 1).toString().padStart(2, '0')}${items[index]?.name ? `・${items[index].name}` : ''}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#2C2C2C]/20 flex items-center justify-center p-4" onClick={isImporting ? undefined : onClose}>
+      <div
+        className="bg-[#FDFBF7] w-full max-w-2xl max-h-[85vh] flex flex-col border border-[#E5E0D8] shadow-[0_10px_40px_rgba(125,116,137,0.15)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-8 pb-4 border-b border-[#F3F0EB]">
+          <h3 className="text-2xl font-playfair text-[#2C2C2C]">Import d'images</h3>
+          <p className="mt-2 text-xs text-[#9F97A8] font-fangsong">
+            檔名結尾的數字對應到項目編號（01.png、item_12.png），沒有編號的圖片依檔名順序放進空白格。
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          {failures === null && (
+            <div>
+              <div className="text-[10px] uppercase tracking-[0.2em] text-[#9F97A8] font-cormorant mb-3">
+                {plan.assignments.length} images{replacedCount > 0 && <span className="ml-2 text-[#7D7489] normal-case tracking-normal font-fangsong">其中 {replacedCount} 張會取代現有圖片</span>}
+              </div>
+              <div className="space-y-2">
+                {plan.assignments.map(assignment => (
+                  <div key={assignment.itemId} className="flex items-center gap-3 text-xs font-fangsong">
+                    <FilePreview file={assignment.file} />
+                    <span className="flex-1 truncate text-[#9F97A8]" title={assignment.file.name}>{assignment.file.name}</span>
+                    <span className="text-[#D8D2CB]">→</span>
+                    <span className="w-40 truncate text-[#2C2C2C]">{itemLabel(assignment.index)}</span>
+                    <span className={`w-16 text-right ${assignment.replacesImage ? 'text-[#7D7489]' : 'text-[#D8D2CB]'}`}>
+                      {assignment.replacesImage ? '取代' : assignment.byNumber ? '依編號' : '空白格'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {failures && failures.length > 0 && (
+            <div>
+              <div className="text-[10px] uppercase tracking-[0.2em] text-red-400 font-cormorant mb-3">Échecs</div>
+              <ul className="space-y-1 text-xs font-fangsong text-red-400">
+                {failures.map(({ assignment, message }) => (
+                  <li key={assignment.itemId}>{assignment.file.name}（{itemLabel(assignment.index)}）：{message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {plan.unmapped.length > 0 && (
+            <div>
+              <div className="text-[10px] uppercase tracking-[0.2em] text-[#9F97A8] font-cormorant mb-3">Non attribuées</div>
+              <ul className="space-y-1 text-xs font-fangsong text-[#9F97A8]">
+                {plan.unmapped.map(({ file, reason }) => (
+                  <li key={`${file.name}-${file.size}-${file.lastModified}`}>{file.name}：{reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {failures !== null && (
+            <p className="text-xs text-[#7D7489] font-fangsong">
+              已匯入 {plan.assignments.length - failures.length} 張圖片，記得按「Enregistrer」儲存。
+            </p>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-[#F3F0EB] space-y-4">
+          {progress && failures === null && (
+            <div className="flex items-center gap-3">
+              <div className="flex-1 h-1 bg-[#F3F0EB] rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-[#7D7489] transition-all duration-300"
+                  style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+                ></div>
+              </div>
+              <span className="text-xs text-[#9F97A8] font-cormorant">{progress.done} / {progress.total}</span>
+            </div>
+          )}
+          <div className="flex justify-end gap-3">
+            {failures === null ? (
+              <>
+                <Button onClick={onClose} variant="ghost" size="sm" disabled={isImporting}>Annuler</Button>
+                <Button onClick={handleImport} variant="primary" size="sm" disabled={isImporting || plan.assignments.length === 0}>
+                  {isImporting ? 'Compression...' : 'Importer'}
+                </Button>
+              </>
+            ) : (
+              <Button onClick={onClose} variant="primary" size="sm">Fermer</Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
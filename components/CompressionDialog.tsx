@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { StickerSet } from '../types';
+import { Button } from './Button';
+import {
+  CompressionEstimate,
+  estimateCompression,
+  getCompressionProfiles,
+  loadDefaultCompressionProfileId,
+  saveDefaultCompressionProfileId
+} from '../services/compressionProfiles';
+
+interface CompressionDialogProps {
+  sets: StickerSet[];
+  onClose: () => void;
+  /** Regenerates every preview; sets with their own profile keep it */
+  onCompressAll: () => void;
+}
+
+const formatMB = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+
+/**
+ * Picks the global compression profile, showing what each one would save before compressing everything
+ */
+export const CompressionDialog: React.FC<CompressionDialogProps> = ({ sets, onClose, onCompressAll }) => {
+  const profiles = getCompressionProfiles();
+  const [selectedId, setSelectedId] = useState(loadDefaultCompressionProfileId);
+  const [estimate, setEstimate] = useState<CompressionEstimate | null>(null);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+
+  // Sets with their own profile are not affected by the default
+  const followingDefault = sets.filter(set => !set.compressionProfile);
+  const overrideCount = sets.length - followingDefault.length;
+
+  useEffect(() => {
+    let cancelled = false;
+    estimateCompression(followingDefault, profiles)
+      .then(result => { if (!cancelled) setEstimate(result); })
+      .catch(err => {
+        console.error('Compression estimate failed:', err);
+        if (!cancelled) setEstimateError('無法估算檔案大小');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleSave = () => {
+    saveDefaultCompressionProfileId(selectedId);
+    onClose();
+  };
+
+  const handleCompressAll = () => {
+    saveDefaultCompressionProfileId(selectedId);
+    onClose();
+    onCompressAll();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#2C2C2C]/20 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-[#FDFBF7] w-full max-w-xl max-h-[85vh] flex flex-col border border-[#E5E0D8] shadow-[0_10px_40px_rgba(125,116,137,0.15)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-8 pb-4 border-b border-[#F3F0EB]">
+          <h3 className="text-2xl font-playfair text-[#2C2C2C]">Compression</h3>
+          <p className="mt-2 text-xs text-[#9F97A8] font-fangsong">
+            設定決定預覽圖的格式與尺寸，原始檔不會被修改。新上傳的圖片會使用預設設定，貼圖集也可以在編輯器裡選擇自己的設定。
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-3">
+          {profiles.map(profile => {
+            const estimated = estimate?.estimatedBytes[profile.id];
+            const saved = estimate && estimated !== undefined ? estimate.currentBytes - estimated : null;
+            return (
+              <label
+                key={profile.id}
+                className={`flex items-start gap-3 p-4 border cursor-pointer transition-colors ${selectedId === profile.id ? 'border-[#7D7489] bg-white' : 'border-[#F3F0EB] hover:border-[#E5E0D8]'}`}
+              >
+                <input type="radio" className="mt-1" checked={selectedId === profile.id} onChange={() => setSelectedId(profile.id)} />
+                <div className="flex-1">
+                  <div className="text-sm font-fangsong text-[#2C2C2C]">{profile.label}</div>
+                  <div className="text-xs font-fangsong text-[#9F97A8]">{profile.description}</div>
+                </div>
+                <div className="text-right text-xs font-cormorant shrink-0 w-28">
+                  {estimated === undefined ? (
+                    <span className="text-[#D8D2CB]">{estimateError ? '—' : '估算中...'}</span>
+                  ) : (
+                    <>
+                      <div className="text-[#2C2C2C]">≈ {formatMB(estimated)}</div>
+                      <div className={saved! >= 0 ? 'text-[#7D7489]' : 'text-red-400'}>
+                        {saved! >= 0 ? `−${formatMB(saved!)}` : `+${formatMB(-saved!)}`}
+                      </div>
+                    </>
+                  )}
+                </div>
+              </label>
+            );
+          })}
+
+          <div className="pt-2 text-[10px] text-[#9F97A8] font-fangsong space-y-1">
+            {estimate && (
+              <p>目前 {estimate.imageCount} 張預覽圖共 {formatMB(estimate.currentBytes)}，估算值以幾張圖片實際壓縮的結果推算。</p>
+            )}
+            {estimateError && <p className="text-red-400">{estimateError}</p>}
+            {overrideCount > 0 && (
+              <p>{overrideCount} 個貼圖集有自己的設定，不在估算內，一鍵壓縮時仍使用各自的設定。</p>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-[#F3F0EB] flex justify-end gap-3">
+          <Button onClick={onClose} variant="ghost" size="sm">Annuler</Button>
+          <Button onClick={handleSave} variant="outline" size="sm">Enregistrer</Button>
+          <Button onClick={handleCompressAll} variant="primary" size="sm">一鍵壓縮</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
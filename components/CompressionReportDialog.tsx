@@ -0,0 +1,60 @@
+import React from 'react';
+import { Button } from './Button';
+import { CompressionJobResult } from '../services/compressionJob';
+
+interface CompressionReportDialogProps {
+  result: CompressionJobResult;
+  onClose: () => void;
+}
+
+/**
+ * Outcome of a "Compress All" run, with every item or set image that could not be compressed
+ */
+export const CompressionReportDialog: React.FC<CompressionReportDialogProps> = ({ result, onClose }) => {
+  const { cancelled, compressed, failures } = result;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#2C2C2C]/20 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-[#FDFBF7] w-full max-w-xl max-h-[85vh] flex flex-col border border-[#E5E0D8] shadow-[0_10px_40px_rgba(125,116,137,0.15)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-8 pb-4 border-b border-[#F3F0EB]">
+          <h3 className="text-2xl font-playfair text-[#2C2C2C]">Compression</h3>
+          <p className="mt-2 text-xs text-[#7D7489] font-fangsong">
+            {cancelled
+              ? `已取消，這次處理了 ${compressed} 張圖片並已儲存。可以稍後在首頁繼續未完成的部分。`
+              : `壓縮完成，這次處理了 ${compressed} 張圖片。請使用「匯出」功能備份您的資料。`}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8">
+          {failures.length === 0 ? (
+            <p className="text-xs text-[#9F97A8] font-fangsong">沒有失敗的圖片。</p>
+          ) : (
+            <>
+              <div className="text-[10px] uppercase tracking-[0.2em] text-red-400 font-cormorant mb-3">
+                Échecs ({failures.length})
+              </div>
+              <ul className="space-y-1 text-xs font-fangsong text-red-400">
+                {failures.map(failure => (
+                  <li key={`${failure.setId}-${failure.itemId}`}>
+                    {failure.setTitle}・{failure.setImage
+                      ? (failure.setImage === 'mainImage' ? 'Main' : 'Tab')
+                      : `NO. ${(failure.itemIndex + 1).toString().padStart(2, '0')}`}
+                    {failure.itemName ? `・${failure.itemName}` : ''}：{failure.message}
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-4 text-xs text-[#7D7489] font-fangsong">失敗的圖片保留原本的預覽圖。</p>
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-[#F3F0EB] flex justify-end">
+          <Button onClick={onClose} variant="primary" size="sm">Fermer</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { Button } from './Button';
+import { DescriptionDraft } from '../services/aiService';
+import { diffText } from '../utils/textDiff';
+
+interface DescriptionDraftPanelProps {
+  draft: DescriptionDraft;
+  current: DescriptionDraft;
+  maxLength: number;
+  onAccept: (field: keyof DescriptionDraft) => void;
+  onClose: () => void;
+}
+
+const FIELDS: { field: keyof DescriptionDraft; label: string; font: string }[] = [
+  { field: 'zhDesc', label: 'Chinois', font: 'font-fangsong' },
+  { field: 'enDesc', label: 'Anglais', font: 'font-cormorant italic' }
+];
+
+export const DescriptionDraftPanel: React.FC<DescriptionDraftPanelProps> = ({ draft, current, maxLength, onAccept, onClose }) => {
+  return (
+    <div className="bg-white p-6 border border-[#E5E0D8] space-y-6">
+      <div className="flex justify-between items-center">
+        <span className="text-xs uppercase tracking-[0.2em] text-[#9F97A8] font-cormorant">Brouillon IA</span>
+        <Button onClick={onClose} variant="ghost" size="sm" className="text-xs">Fermer</Button>
+      </div>
+
+      {FIELDS.map(({ field, label, font }) => {
+        const length = Array.from(draft[field]).length;
+        const unchanged = draft[field] === current[field];
+
+        return (
+          <div key={field} className="space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="text-[10px] uppercase tracking-[0.2em] text-[#D8D2CB] font-cormorant">
+                {label} · {length} / {maxLength}
+              </span>
+              <Button onClick={() => onAccept(field)} variant="outline" size="sm" className="text-xs" disabled={unchanged}>
+                {unchanged ? 'Accepté' : 'Accepter'}
+              </Button>
+            </div>
+            <p className={`text-sm leading-relaxed ${font}`}>
+              {diffText(current[field], draft[field]).map((segment, i) => (
+                <span
+                  key={i}
+                  className={
+                    segment.type === 'added'
+                      ? 'bg-[#F3F0F5] text-[#7D7489]'
+                      : segment.type === 'removed'
+                        ? 'line-through text-[#D8D2CB]'
+                        : 'text-[#5D5550]'
+                  }
+                >
+                  {segment.text}
+                </span>
+              ))}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import { StickerItem } from '../types';
+import { Button } from './Button';
+import { getSourceImage } from '../services/storage';
+import { storeUploadedImage } from '../services/imageUpload';
+import { CompressionProfile } from '../services/compressionProfiles';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+export interface ImageToolTarget {
+  item: StickerItem;
+  index: number; // Position of the item in the set
+}
+
+/**
+ * Processes a full-quality source image
+ * @param previewSize - Set for previews: the image may be downscaled to this size first
+ * @returns The processed image, or null when it stays unchanged
+ */
+export type ImageProcessor = (source: Blob, previewSize?: number) => Promise<Blob | null>;
+
+interface ImageToolDialogProps {
+  title: string;
+  description: string;
+  targets: ImageToolTarget[];
+  /** Re-renders the preview when it changes; a new function per settings change is enough */
+  process: ImageProcessor;
+  /** Receives the new images by item id, applied as a single edit */
+  onApply: (images: Record<string, Pick<StickerItem, 'imageId' | 'originalId'>>) => void;
+  onClose: () => void;
+  /** How the previews of the processed images are made */
+  compressionProfile?: CompressionProfile;
+  /** Settings of the tool */
+  children: React.ReactNode;
+}
+
+// Full-size canvas work is heavy, two at a time keeps the page responsive
+const CONCURRENCY = 2;
+
+const PREVIEW_SIZE = 320;
+
+// Settings are re-rendered after the sliders stop moving
+const PREVIEW_DELAY_MS = 200;
+
+const label = ({ item, index }: ImageToolTarget) =>
+  `NO. ${(index + 1).toString().padStart(2, '0')}${item.name ? `・${item.name}` : ''}`;
+
+const useObjectUrl = (blob?: Blob) => {
+  const [url, setUrl] = useState<string>();
+  useEffect(() => {
+    if (!blob) {
+      setUrl(undefined);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url;
+};
+
+/**
+ * Shared frame of the canvas image tools: before/after preview on a checkerboard,
+ * then the processing of every target, replacing its original and preview
+ */
+export const ImageToolDialog: React.FC<ImageToolDialogProps> = ({ title, description, targets, process, onApply, onClose, compressionProfile, children }) => {
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [source, setSource] = useState<Blob>();
+  const [result, setResult] = useState<Blob>();
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [failures, setFailures] = useState<{ target: ImageToolTarget; message: string }[] | null>(null);
+
+  const isProcessing = progress !== null && failures === null;
+  const previewTarget = targets[previewIndex];
+  const sourceUrl = useObjectUrl(source);
+  const resultUrl = useObjectUrl(result);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSource(undefined);
+    setResult(undefined);
+    getSourceImage(previewTarget.item)
+      .then(blob => { if (!cancelled) setSource(blob); })
+      .catch(err => console.error('Failed to load image:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [previewTarget]);
+
+  useEffect(() => {
+    if (!source) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      process(source, PREVIEW_SIZE)
+        .then(preview => {
+          if (cancelled) return;
+          setResult(preview ?? source);
+          setPreviewError(null);
+        })
+        .catch(err => {
+          console.error(`${title} preview failed:`, err);
+          if (!cancelled) setPreviewError(err.message || '預覽失敗');
+        });
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [source, process]);
+
+  const handleApply = async () => {
+    setProgress({ done: 0, total: targets.length });
+    const results = await mapWithConcurrency(
+      targets,
+      CONCURRENCY,
+      async (target: ImageToolTarget) => {
+        const blob = await getSourceImage(target.item);
+        if (!blob) {
+          throw new Error('找不到圖片');
+        }
+        const processed = await process(blob);
+        return processed ? storeUploadedImage(processed, compressionProfile) : null;
+      },
+      (done, total) => setProgress({ done, total })
+    );
+
+    const images: Record<string, Pick<StickerItem, 'imageId' | 'originalId'>> = {};
+    const failed: { target: ImageToolTarget; message: string }[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        if (result.value) images[targets[i].item.id] = result.value;
+      } else {
+        console.error(`${title} failed:`, result.reason);
+        failed.push({ target: targets[i], message: result.reason?.message || '處理失敗' });
+      }
+    });
+
+    if (Object.keys(images).length > 0) {
+      onApply(images);
+    }
+    if (failed.length === 0) {
+      onClose();
+      return;
+    }
+    setFailures(failed);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#2C2C2C]/20 flex items-center justify-center p-4" onClick={isProcessing ? undefined : onClose}>
+      <div
+        className="bg-[#FDFBF7] w-full max-w-3xl max-h-[90vh] flex flex-col border border-[#E5E0D8] shadow-[0_10px_40px_rgba(125,116,137,0.15)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-8 pb-4 border-b border-[#F3F0EB]">
+          <h3 className="text-2xl font-playfair text-[#2C2C2C]">{title}</h3>
+          <p className="mt-2 text-xs text-[#9F97A8] font-fangsong">{description}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          {failures === null ? (
+            <>
+              <div className="flex items-center justify-between text-xs font-fangsong text-[#7D7489]">
+                <Button variant="ghost" size="sm" onClick={() => setPreviewIndex(i => i - 1)} disabled={previewIndex === 0}>‹</Button>
+                <span>{label(previewTarget)}{targets.length > 1 && `（${previewIndex + 1} / ${targets.length}）`}</span>
+                <Button variant="ghost" size="sm" onClick={() => setPreviewIndex(i => i + 1)} disabled={previewIndex === targets.length - 1}>›</Button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                {[{ caption: 'Avant', url: sourceUrl }, { caption: 'Après', url: resultUrl }].map(({ caption, url }) => (
+                  <div key={caption}>
+                    <div className="text-[10px] uppercase tracking-[0.2em] text-[#9F97A8] font-cormorant mb-2">{caption}</div>
+                    <div className="aspect-square bg-checkerboard border border-[#F3F0EB] flex items-center justify-center">
+                      {url
+                        ? <img src={url} className="w-full h-full object-contain" />
+                        : <span className="text-[10px] text-[#9F97A8] font-fangsong bg-white/80 px-2">載入中...</span>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {previewError && <p className="text-xs text-red-400 font-fangsong">{previewError}</p>}
+
+              {children}
+            </>
+          ) : (
+            <div>
+              <div className="text-[10px] uppercase tracking-[0.2em] text-red-400 font-cormorant mb-3">Échecs</div>
+              <ul className="space-y-1 text-xs font-fangsong text-red-400">
+                {failures.map(({ target, message }) => (
+                  <li key={target.item.id}>{label(target)}：{message}</li>
+                ))}
+              </ul>
+              <p className="mt-4 text-xs text-[#7D7489] font-fangsong">
+                其餘 {targets.length - failures.length} 張已處理，記得按「Enregistrer」儲存。
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-[#F3F0EB] space-y-4">
+          {progress && failures === null && (
+            <div className="flex items-center gap-3">
+              <div className="flex-1 h-1 bg-[#F3F0EB] rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-[#7D7489] transition-all duration-300"
+                  style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+                ></div>
+              </div>
+              <span className="text-xs text-[#9F97A8] font-cormorant">{progress.done} / {progress.total}</span>
+            </div>
+          )}
+          <div className="flex justify-end gap-3">
+            {failures === null ? (
+              <>
+                <Button onClick={onClose} variant="ghost" size="sm" disabled={isProcessing}>Annuler</Button>
+                <Button onClick={handleApply} variant="primary" size="sm" disabled={isProcessing}>
+                  {isProcessing ? 'Traitement...' : targets.length > 1 ? `Appliquer (${targets.length})` : 'Appliquer'}
+                </Button>
+              </>
+            ) : (
+              <Button onClick={onClose} variant="primary" size="sm">Fermer</Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+
+interface MachineTranslatedBadgeProps {
+  show: boolean;
+  className?: string;
+}
+
+/**
+ * Small marker for text filled by AI translation and not yet reviewed by a human
+ */
+export const MachineTranslatedBadge: React.FC<MachineTranslatedBadgeProps> = ({ show, className = '' }) => {
+  if (!show) return null;
+  return (
+    <span
+      className={`inline-block text-[9px] px-1 py-px border border-[#E6E4E9] text-[#9F97A8] bg-[#F3F0F5] rounded-sm font-cormorant tracking-widest uppercase align-middle ${className}`}
+      title="機器翻譯，尚未人工確認"
+    >
+      Auto
+    </span>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Button } from './Button';
+
+export type SuggestionStatus = 'idle' | 'loading' | 'error';
+
+interface NameSuggestionPanelProps {
+  status: SuggestionStatus;
+  error: string | null;
+  pendingCount: number;
+  emptySlotCount: number;
+  onSuggestAll: () => void;
+  onRegenerateEmpty: () => void;
+  onAcceptAll: () => void;
+  onDismiss: () => void;
+}
+
+export const NameSuggestionPanel: React.FC<NameSuggestionPanelProps> = ({
+  status,
+  error,
+  pendingCount,
+  emptySlotCount,
+  onSuggestAll,
+  onRegenerateEmpty,
+  onAcceptAll,
+  onDismiss
+}) => {
+  const isLoading = status === 'loading';
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-center gap-3 md:gap-6">
+      <span className="text-xs uppercase tracking-[0.2em] text-[#9F97A8] font-cormorant shrink-0">Noms IA</span>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button onClick={onSuggestAll} variant="ghost" size="sm" disabled={isLoading} className="text-xs">
+          {isLoading ? '生成中...' : '建議名稱'}
+        </Button>
+        <Button
+          onClick={onRegenerateEmpty}
+          variant="ghost"
+          size="sm"
+          disabled={isLoading || emptySlotCount === 0}
+          className="text-xs"
+          title="只替空白或預設名稱（Image N）的項目重新產生"
+        >
+          補齊空白 ({emptySlotCount})
+        </Button>
+        {pendingCount > 0 && (
+          <>
+            <div className="h-3 w-px bg-[#E5E0D8]"></div>
+            <Button onClick={onAcceptAll} variant="outline" size="sm" className="text-xs">
+              全部採用 ({pendingCount})
+            </Button>
+            <Button onClick={onDismiss} variant="ghost" size="sm" className="text-xs">
+              捨棄
+            </Button>
+          </>
+        )}
+      </div>
+
+      {status === 'error' && error && (
+        <span className="text-xs text-red-400 font-fangsong">{error}</span>
+      )}
+    </div>
+  );
+};
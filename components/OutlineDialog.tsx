@@ -0,0 +1,87 @@
+import React, { useCallback, useState } from 'react';
+import { StickerItem } from '../types';
+import { ImageToolDialog, ImageToolTarget } from './ImageToolDialog';
+import { CompressionProfile } from '../services/compressionProfiles';
+import { DEFAULT_OUTLINE, MAX_STROKE_WIDTH, OutlineOptions, outlineSticker } from '../utils/stickerOutline';
+
+interface OutlineDialogProps {
+  targets: ImageToolTarget[];
+  /** Receives the new images by item id, applied as a single edit */
+  onApply: (images: Record<string, Pick<StickerItem, 'imageId' | 'originalId'>>) => void;
+  onClose: () => void;
+  compressionProfile?: CompressionProfile;
+}
+
+/**
+ * Adds an outline, padding and trimming to one or several items, with a live preview
+ */
+export const OutlineDialog: React.FC<OutlineDialogProps> = ({ targets, onApply, onClose, compressionProfile }) => {
+  const [options, setOptions] = useState<OutlineOptions>(DEFAULT_OUTLINE);
+
+  const update = (changes: Partial<OutlineOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const process = useCallback(
+    (source: Blob, previewSize?: number) => outlineSticker(source, options, previewSize),
+    [options]
+  );
+
+  return (
+    <ImageToolDialog
+      title="Contour & Marges"
+      description="沿著圖案的透明輪廓描邊，再加上四周留白。請先去背，描邊只會出現在透明區域旁。原始檔會換成處理後的 PNG，可用 Ctrl+Z 復原。"
+      targets={targets}
+      process={process}
+      onApply={onApply}
+      onClose={onClose}
+      compressionProfile={compressionProfile}
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-xs font-fangsong text-[#7D7489]">
+        <label className="block space-y-2">
+          <span className="flex justify-between">
+            <span className="text-[10px] uppercase tracking-[0.2em] text-[#9F97A8] font-cormorant">Contour</span>
+            <span>{options.strokeWidth} px</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={MAX_STROKE_WIDTH}
+            value={options.strokeWidth}
+            onChange={(e) => update({ strokeWidth: parseInt(e.target.value) })}
+            className="w-full accent-[#7D7489]"
+          />
+        </label>
+
+        <label className="block space-y-2">
+          <span className="flex justify-between">
+            <span className="text-[10px] uppercase tracking-[0.2em] text-[#9F97A8] font-cormorant">Marge</span>
+            <span>{options.padding} px</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={40}
+            value={options.padding}
+            onChange={(e) => update({ padding: parseInt(e.target.value) })}
+            className="w-full accent-[#7D7489]"
+          />
+        </label>
+
+        <label className="flex items-center gap-2 cursor-pointer">
+          <span className="text-[10px] uppercase tracking-[0.2em] text-[#9F97A8] font-cormorant">Couleur</span>
+          <input
+            type="color"
+            value={options.strokeColor}
+            onChange={(e) => update({ strokeColor: e.target.value })}
+            className="w-8 h-5 p-0 border border-[#E5E0D8] cursor-pointer"
+          />
+          <span>{options.strokeColor}</span>
+        </label>
+
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={options.trim} onChange={(e) => update({ trim: e.target.checked })} />
+          先裁掉四周的透明區域
+        </label>
+      </div>
+    </ImageToolDialog>
+  );
+};
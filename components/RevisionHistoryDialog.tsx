@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import { StickerSet } from '../types';
+import { Button } from './Button';
+import { BackupFile } from '../services/backup';
+import { BackendRevision } from '../services/sync/types';
+import { isSameContent } from '../services/syncMerge';
+import { syncService } from '../services/syncService';
+
+interface RevisionHistoryDialogProps {
+  onClose: () => void;
+  /**
+   * Writes a revision into local storage
+   * @param setIds - Sets to restore, or null to restore the whole revision
+   * @returns false when the user cancelled
+   */
+  onRestore: (backup: BackupFile, setIds: string[] | null) => Promise<boolean>;
+}
+
+const PAGE_SIZE = 10;
+
+interface RevisionDiff {
+  added: string[];
+  removed: string[];
+  modified: string[];
+}
+
+/**
+ * Titles of the sets that differ between a revision and the one before it
+ */
+const diffRevisions = (sets: StickerSet[], previous: StickerSet[]): RevisionDiff => {
+  const previousById = new Map(previous.map(set => [set.id, set]));
+  const ids = new Set(sets.map(set => set.id));
+
+  return {
+    added: sets.filter(set => !previousById.has(set.id)).map(set => set.title),
+    removed: previous.filter(set => !ids.has(set.id)).map(set => set.title),
+    modified: sets
+      .filter(set => previousById.has(set.id) && !isSameContent(set, previousById.get(set.id)))
+      .map(set => set.title)
+  };
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleString('zh-TW', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const countItems = (sets: StickerSet[]) => sets.reduce((sum, set) => sum + set.items.length, 0);
+
+/**
+ * Lists past versions of the cloud backup, previews one read-only and restores it
+ * Summaries are loaded one revision at a time and skip decoding the image shards. The Gist API
+ * still returns every file of a revision inline (up to 1 MB each), so each summary costs a full fetch.
+ */
+export const RevisionHistoryDialog: React.FC<RevisionHistoryDialogProps> = ({ onClose, onRestore }) => {
+  const [revisions, setRevisions] = useState<BackendRevision[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(true);
+  const [isLoadingPage, setIsLoadingPage] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Revision id -> its sets (without images), or the error message of a failed read
+  const [contents, setContents] = useState<Record<string, StickerSet[] | string>>({});
+
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<BackupFile | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [expandedSetId, setExpandedSetId] = useState<string | null>(null);
+  const [selectedSetIds, setSelectedSetIds] = useState<string[]>([]);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoadingPage(true);
+    syncService.listRevisions(page, PAGE_SIZE)
+      .then(result => {
+        if (cancelled) return;
+        setRevisions(prev => [...prev, ...result.filter(r => !prev.some(p => p.id === r.id))]);
+        setHasMore(result.length === PAGE_SIZE);
+      })
+      .catch((e: any) => { if (!cancelled) setError(e.message); })
+      .finally(() => { if (!cancelled) setIsLoadingPage(false); });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [page]);
+
+  // Load summaries sequentially, newest first
+  useEffect(() => {
+    const next = revisions.find(revision => !(revision.id in contents));
+    if (!next) return;
+
+    let cancelled = false;
+    syncService.loadRevision(next.id, false)
+      .then(backup => backup.sets, (e: any) => String(e.message))
+      .then(result => { if (!cancelled) setContents(prev => ({ ...prev, [next.id]: result })); });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [revisions, contents]);
+
+  useEffect(() => {
+    if (!previewId) return;
+
+    let cancelled = false;
+    setPreview(null);
+    setPreviewError(null);
+    setExpandedSetId(null);
+    setSelectedSetIds([]);
+    syncService.loadRevision(previewId)
+      .then(backup => { if (!cancelled) setPreview(backup); })
+      .catch((e: any) => { if (!cancelled) setPreviewError(e.message); });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [previewId]);
+
+  const toggleSet = (id: string) => {
+    setSelectedSetIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const restore = async (setIds: string[] | null) => {
+    if (!preview) return;
+    setIsRestoring(true);
+    try {
+      if (await onRestore(preview, setIds)) {
+        onClose();
+      }
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const renderSummary = (revision: BackendRevision, index: number) => {
+    const sets = contents[revision.id];
+    if (sets === undefined) {
+      return <span className="text-[#D8D2CB]">讀取中...</span>;
+    }
+    if (typeof sets === 'string') {
+      return <span className="text-red-400">無法讀取：{sets}</span>;
+    }
+
+    const counts = `${sets.length} 個貼圖集・${countItems(sets)} 張`;
+    const older = revisions[index + 1];
+    const previous = older ? contents[older.id] : (hasMore ? undefined : []);
+    if (previous === undefined || typeof previous === 'string') {
+      return <span>{counts}</span>;
+    }
+
+    const diff = diffRevisions(sets, previous);
+    const changes = [
+      ...diff.added.map(title => `＋${title}`),
+      ...diff.removed.map(title => `－${title}`),
+      ...diff.modified.map(title => `✎${title}`)
+    ];
+    return (
+      <>
+        <span>{counts}</span>
+        <span className="block text-[#D8D2CB] truncate" title={changes.join('、')}>
+          {changes.length > 0 ? changes.join('、') : '貼圖集內容未變'}
+        </span>
+      </>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#2C2C2C]/20 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-[#FDFBF7] w-full max-w-4xl h-[85vh] flex flex-col border border-[#E5E0D8] shadow-[0_10px_40px_rgba(125,116,137,0.15)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-8 pb-4 border-b border-[#F3F0EB]">
+          <h3 className="text-2xl font-playfair text-[#2C2C2C]">Historique</h3>
+          <p className="mt-2 text-xs text-[#9F97A8] font-fangsong">
+            每次上傳都會在 {syncService.getBackend().describe()} 留下一個版本。選擇版本可預覽內容，並還原整個版本或部分貼圖集。
+          </p>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-2/5 overflow-y-auto border-r border-[#F3F0EB]">
+            {error && <div className="p-4 text-xs text-red-400 font-fangsong">{error}</div>}
+            {revisions.map((revision, index) => (
+              <button
+                key={revision.id}
+                type="button"
+                onClick={() => setPreviewId(revision.id)}
+                className={`w-full text-left px-6 py-4 border-b border-[#F3F0EB] transition-colors ${previewId === revision.id ? 'bg-[#F3F0F5]' : 'hover:bg-[#F9F8F6]'}`}
+              >
+                <div className="text-sm font-cormorant text-[#2C2C2C]">
+                  {formatDate(revision.createdAt)}
+                  {index === 0 && <span className="ml-2 text-[10px] uppercase tracking-[0.2em] text-[#7D7489]">Actuelle</span>}
+                </div>
+                <div className="mt-1 text-[11px] text-[#9F97A8] font-fangsong">{renderSummary(revision, index)}</div>
+              </button>
+            ))}
+            {!isLoadingPage && !error && revisions.length === 0 && (
+              <div className="p-6 text-xs text-[#D8D2CB] font-fangsong">雲端還沒有任何版本。</div>
+            )}
+            {hasMore && !error && (
+              <div className="p-4 text-center">
+                <Button onClick={() => setPage(p => p + 1)} variant="ghost" size="sm" disabled={isLoadingPage}>
+                  {isLoadingPage ? '...' : 'Plus ancien'}
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6">
+            {!previewId && <p className="text-xs text-[#D8D2CB] font-fangsong">請在左側選擇一個版本。</p>}
+            {previewId && !preview && !previewError && <p className="text-xs text-[#9F97A8] font-fangsong">正在下載這個版本...</p>}
+            {previewError && <p className="text-xs text-red-400 font-fangsong">{previewError}</p>}
+            {preview && preview.sets.length === 0 && <p className="text-xs text-[#D8D2CB] font-fangsong">這個版本沒有貼圖集。</p>}
+            {preview && (
+              <div className="space-y-3">
+                {preview.sets.map(set => (
+                  <div key={set.id} className="border border-[#F3F0EB]">
+                    <div className="flex items-center gap-3 px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedSetIds.includes(set.id)}
+                        onChange={() => toggleSet(set.id)}
+                        className="accent-[#7D7489]"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setExpandedSetId(expandedSetId === set.id ? null : set.id)}
+                        className="flex-1 text-left"
+                      >
+                        <span className="text-base font-playfair text-[#2C2C2C]">{set.title || 'Sans titre'}</span>
+                        <span className="ml-2 text-[11px] text-[#9F97A8] font-fangsong">{set.items.length} 張</span>
+                      </button>
+                    </div>
+                    {expandedSetId === set.id && (
+                      <div className="grid grid-cols-4 md:grid-cols-6 gap-2 px-4 pb-4">
+                        {set.items.map(item => {
+                          const src = (item.imageId && preview.images[item.imageId]) || item.imageUrl;
+                          return (
+                            <div key={item.id} className="text-center">
+                              {src
+                                ? <img src={src} className="w-full aspect-square object-contain bg-white border border-[#F3F0EB]" />
+                                : <div className="w-full aspect-square bg-[#F9F8F6] border border-[#F3F0EB]"></div>}
+                              <div className="mt-1 text-[10px] text-[#9F97A8] font-fangsong truncate">{item.name || '—'}</div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end items-center gap-3 p-6 border-t border-[#F3F0EB]">
+          <Button onClick={onClose} variant="ghost" size="sm" className="mr-auto">Fermer</Button>
+          <Button
+            onClick={() => restore(selectedSetIds)}
+            variant="outline"
+            size="sm"
+            disabled={!preview || selectedSetIds.length === 0 || isRestoring}
+          >
+            Restaurer la sélection
+          </Button>
+          <Button onClick={() => restore(null)} variant="primary" size="sm" disabled={!preview || isRestoring}>
+            {isRestoring ? '...' : 'Restaurer tout'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
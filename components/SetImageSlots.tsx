@@ -0,0 +1,184 @@
+import React, { useRef, useState } from 'react';
+import { SetImage, StickerSet } from '../types';
+import { Button } from './Button';
+import { storeUploadedImage } from '../services/imageUpload';
+import { generateSetImage, SET_IMAGE_SIZES, SetImageField } from '../services/linePackage';
+import { useImageUrl } from '../hooks/useImageUrl';
+import { CompressionProfile, resolveCompressionProfile } from '../services/compressionProfiles';
+
+/** New images by slot; undefined removes the image */
+type SetImageChanges = Partial<Record<SetImageField, SetImage | undefined>>;
+
+interface SetImageSlotsProps {
+  set: StickerSet;
+  /** Called once per change, so generating both images is a single edit */
+  onChange: (images: SetImageChanges) => void;
+}
+
+const SLOT_LABELS: Record<SetImageField, string> = {
+  mainImage: 'Main',
+  tabImage: 'Tab'
+};
+
+interface SlotProps {
+  field: SetImageField;
+  image?: SetImage;
+  compressionProfile: CompressionProfile;
+  onChange: (images: SetImageChanges) => void;
+}
+
+const Slot: React.FC<SlotProps> = ({ field, image, compressionProfile, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const url = useImageUrl(image?.imageId);
+  const { width, height } = SET_IMAGE_SIZES[field];
+
+  const upload = async (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      alert('請上傳圖片檔案');
+      return;
+    }
+    try {
+      setIsUploading(true);
+      onChange({ [field]: await storeUploadedImage(file, compressionProfile) });
+    } catch (error) {
+      console.error('Set image upload failed:', error);
+      alert('圖片上傳失敗，請重試');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) upload(file);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        style={{ aspectRatio: `${width} / ${height}` }}
+        className={`w-24 flex items-center justify-center border cursor-pointer transition-colors bg-white
+          ${isDragging ? 'border-[#7D7489] bg-[#F3F0F5]' : 'border-dashed border-[#E5E0D8] hover:border-[#9F97A8]'}`}
+        title="點擊或拖放圖片"
+      >
+        {isUploading ? (
+          <span className="text-[10px] text-[#9F97A8] font-fangsong">處理中...</span>
+        ) : url ? (
+          <img src={url} className="w-full h-full object-contain" />
+        ) : (
+          <span className="text-lg text-[#E5E0D8]">+</span>
+        )}
+      </div>
+      <div className="flex items-center gap-2 text-[10px] font-cormorant uppercase tracking-[0.2em] text-[#9F97A8]">
+        {SLOT_LABELS[field]} <span className="normal-case tracking-normal text-[#D8D2CB]">{width}×{height}</span>
+        {image && (
+          <button onClick={() => onChange({ [field]: undefined })} className="text-[#D8D2CB] hover:text-red-400" title="移除圖片">
+            ✕
+          </button>
+        )}
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) upload(file);
+        }}
+      />
+    </div>
+  );
+};
+
+/**
+ * Main and tab image slots of a set, filled by upload or generated from one of its items
+ */
+export const SetImageSlots: React.FC<SetImageSlotsProps> = ({ set, onChange }) => {
+  const itemsWithImages = set.items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => item.imageId);
+  const [sourceId, setSourceId] = useState<string>('');
+  const [mode, setMode] = useState<'crop' | 'fit'>('fit');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const compressionProfile = resolveCompressionProfile(set);
+
+  // Falls back to the first item with an image when the chosen one lost it
+  const source = itemsWithImages.find(({ item }) => item.id === sourceId) || itemsWithImages[0];
+
+  const handleGenerate = async () => {
+    if (!source) return;
+    if ((set.mainImage || set.tabImage) && !confirm('將以產生的圖片取代目前的 Main 與 Tab 圖片，確定嗎？')) return;
+
+    setIsGenerating(true);
+    try {
+      const [main, tab] = await Promise.all([
+        generateSetImage(source.item, 'mainImage', mode, compressionProfile),
+        generateSetImage(source.item, 'tabImage', mode, compressionProfile)
+      ]);
+      onChange({ mainImage: main, tabImage: tab });
+    } catch (error: any) {
+      console.error('Set image generation failed:', error);
+      alert(`❌ 產生失敗：${error.message || '未知錯誤'}`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-xs uppercase tracking-[0.2em] text-[#9F97A8] mb-3 font-cormorant">Images de Couverture</label>
+      <div className="flex flex-wrap items-end gap-8">
+        <Slot field="mainImage" image={set.mainImage} compressionProfile={compressionProfile} onChange={onChange} />
+        <Slot field="tabImage" image={set.tabImage} compressionProfile={compressionProfile} onChange={onChange} />
+
+        <div className="flex-1 min-w-[200px] space-y-2 text-xs font-fangsong">
+          <select
+            value={source?.item.id || ''}
+            onChange={(e) => setSourceId(e.target.value)}
+            disabled={itemsWithImages.length === 0}
+            className="w-full bg-transparent border-b border-[#E5E0D8] py-1 rounded-none focus:outline-none focus:border-[#7D7489] cursor-pointer disabled:text-[#D8D2CB]"
+          >
+            {itemsWithImages.length === 0 && <option value="">尚無有圖片的項目</option>}
+            {itemsWithImages.map(({ item, index }) => (
+              <option key={item.id} value={item.id}>
+                NO. {(index + 1).toString().padStart(2, '0')}{item.name ? `・${item.name}` : ''}
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-1 cursor-pointer text-[#9F97A8]">
+              <input type="radio" checked={mode === 'fit'} onChange={() => setMode('fit')} />
+              縮放（保留整張）
+            </label>
+            <label className="flex items-center gap-1 cursor-pointer text-[#9F97A8]">
+              <input type="radio" checked={mode === 'crop'} onChange={() => setMode('crop')} />
+              裁切（填滿）
+            </label>
+          </div>
+          <Button
+            onClick={handleGenerate}
+            variant="ghost"
+            size="sm"
+            className="text-xs pl-0"
+            disabled={!source || isGenerating}
+          >
+            {isGenerating ? '產生中...' : '從項目自動產生'}
+          </Button>
+        </div>
+      </div>
+      {set.type === 'Emoji' && (
+        <p className="mt-2 text-[10px] text-[#D8D2CB] font-fangsong">LINE 表情貼只需要 Tab 圖片，Main 僅作為封面。</p>
+      )}
+    </div>
+  );
+};
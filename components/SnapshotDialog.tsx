@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { StickerItem, StickerSet } from '../types';
+import { Button } from './Button';
+import { useImageUrl } from '../hooks/useImageUrl';
+import { SnapshotReason, SnapshotRecord, deleteSnapshot, getSnapshots } from '../services/storage';
+import { isSameContent } from '../services/syncMerge';
+
+interface SnapshotDialogProps {
+  /** Current sets, to flag what a restore would bring back or overwrite */
+  currentSets: StickerSet[];
+  onClose: () => void;
+  /**
+   * Writes a snapshot back into local storage
+   * @param setIds - Sets to restore, or null to restore the whole snapshot
+   * @returns false when the user cancelled
+   */
+  onRestore: (snapshot: SnapshotRecord, setIds: string[] | null) => Promise<boolean>;
+}
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  compress: '一鍵壓縮前',
+  import: '匯入前',
+  download: '從雲端下載前',
+  delete: '刪除貼圖集前',
+  restore: '還原前'
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('zh-TW', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const Thumbnail: React.FC<{ item: StickerItem }> = ({ item }) => {
+  const url = useImageUrl(item.imageId);
+  return url
+    ? <img src={url} className="w-full aspect-square object-contain bg-white border border-[#F3F0EB]" />
+    : <div className="w-full aspect-square bg-[#F9F8F6] border border-[#F3F0EB]"></div>;
+};
+
+/**
+ * Lists the local snapshots taken before destructive operations and restores them
+ */
+export const SnapshotDialog: React.FC<SnapshotDialogProps> = ({ currentSets, onClose, onRestore }) => {
+  const [snapshots, setSnapshots] = useState<SnapshotRecord[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedSetIds, setSelectedSetIds] = useState<string[]>([]);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    getSnapshots()
+      .then(result => {
+        setSnapshots(result);
+        setSelectedId(result[0]?.id ?? null);
+      })
+      .catch(err => {
+        console.error('Failed to load snapshots:', err);
+        setSnapshots([]);
+      });
+  }, []);
+
+  const snapshot = snapshots?.find(s => s.id === selectedId);
+
+  const select = (id: string) => {
+    setSelectedId(id);
+    setSelectedSetIds([]);
+  };
+
+  const toggleSet = (id: string) => {
+    setSelectedSetIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleDelete = async () => {
+    if (!snapshot || !confirm('確定要刪除這個快照嗎？')) return;
+    await deleteSnapshot(snapshot.id);
+    const remaining = (snapshots || []).filter(s => s.id !== snapshot.id);
+    setSnapshots(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+    setSelectedSetIds([]);
+  };
+
+  const restore = async (setIds: string[] | null) => {
+    if (!snapshot) return;
+    setIsRestoring(true);
+    try {
+      if (await onRestore(snapshot, setIds)) {
+        onClose();
+      }
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const setState = (set: StickerSet) => {
+    const current = currentSets.find(s => s.id === set.id);
+    if (!current) return <span className="text-[#7D7489]">目前已刪除</span>;
+    if (!isSameContent(set, current)) return <span className="text-[#9F97A8]">與目前不同</span>;
+    return <span className="text-[#D8D2CB]">與目前相同</span>;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#2C2C2C]/20 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-[#FDFBF7] w-full max-w-4xl h-[85vh] flex flex-col border border-[#E5E0D8] shadow-[0_10px_40px_rgba(125,116,137,0.15)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-8 pb-4 border-b border-[#F3F0EB]">
+          <h3 className="text-2xl font-playfair text-[#2C2C2C]">Instantanés</h3>
+          <p className="mt-2 text-xs text-[#9F97A8] font-fangsong">
+            刪除、匯入、一鍵壓縮、從雲端下載或還原之前，會自動在這台裝置保存一份資料快照。最近 5 份一律保留，其餘最多 20 份、保存 30 天。
+          </p>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-2/5 overflow-y-auto border-r border-[#F3F0EB]">
+            {snapshots === null && <div className="p-6 text-xs text-[#9F97A8] font-fangsong">讀取中...</div>}
+            {snapshots?.length === 0 && <div className="p-6 text-xs text-[#D8D2CB] font-fangsong">目前沒有快照。</div>}
+            {snapshots?.map(s => (
+              <button
+                key={s.id}
+                type="button"
+                onClick={() => select(s.id)}
+                className={`w-full text-left px-6 py-4 border-b border-[#F3F0EB] transition-colors ${selectedId === s.id ? 'bg-[#F3F0F5]' : 'hover:bg-[#F9F8F6]'}`}
+              >
+                <div className="text-sm font-cormorant text-[#2C2C2C]">{formatDate(s.createdAt)}</div>
+                <div className="mt-1 text-[11px] text-[#9F97A8] font-fangsong truncate">
+                  {REASON_LABELS[s.reason]}{s.detail ? `：${s.detail}` : ''}
+                </div>
+                <div className="text-[11px] text-[#D8D2CB] font-fangsong">
+                  {s.sets.length} 個貼圖集・{s.sets.reduce((sum, set) => sum + set.items.length, 0)} 張
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-3">
+            {snapshot?.sets.map(set => (
+              <label key={set.id} className="block border border-[#F3F0EB] p-4 cursor-pointer hover:border-[#E5E0D8]">
+                <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={selectedSetIds.includes(set.id)}
+                    onChange={() => toggleSet(set.id)}
+                    className="accent-[#7D7489]"
+                  />
+                  <span className="flex-1 text-base font-playfair text-[#2C2C2C] truncate">{set.title || 'Sans titre'}</span>
+                  <span className="text-[11px] font-fangsong">{setState(set)}</span>
+                </div>
+                <div className="grid grid-cols-6 gap-2 mt-3">
+                  {set.items.slice(0, 6).map(item => <Thumbnail key={item.id} item={item} />)}
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end items-center gap-3 p-6 border-t border-[#F3F0EB]">
+          <Button onClick={onClose} variant="ghost" size="sm">Fermer</Button>
+          <Button onClick={handleDelete} variant="ghost" size="sm" disabled={!snapshot} className="mr-auto">Supprimer</Button>
+          <Button
+            onClick={() => restore(selectedSetIds)}
+            variant="outline"
+            size="sm"
+            disabled={!snapshot || selectedSetIds.length === 0 || isRestoring}
+          >
+            Restaurer la sélection
+          </Button>
+          <Button onClick={() => restore(null)} variant="primary" size="sm" disabled={!snapshot || isRestoring}>
+            {isRestoring ? '...' : 'Restaurer tout'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
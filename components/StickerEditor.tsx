@@ -1,8 +1,30 @@
 
-import React, { useState, useCallback } from 'react';
-import { StickerSet, StickerItem } from '../types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { DndContext, DragEndEvent, closestCenter } from '@dnd-kit/core';
+import { SortableContext, arrayMove, rectSortingStrategy } from '@dnd-kit/sortable';
+import { SetImage, StickerSet, StickerItem, TranslatableSetField } from '../types';
 import { StickerItemCard } from './StickerItemCard';
 import { Button } from './Button';
+import { buildLinePackage } from '../services/linePackage';
+import { setImageRefs } from '../services/storage';
+import { downloadBlob } from '../utils/download';
+import { validateStickerSet, ValidationReport } from '../services/platformValidator';
+import { getProfilesForType, LINE_COUNTS, LINE_STICKER_PROFILE } from '../services/platformProfiles';
+import { draftDescriptions, DescriptionDraft, suggestStickerNames, translateMissing } from '../services/aiService';
+import { NameSuggestionPanel, SuggestionStatus } from './NameSuggestionPanel';
+import { DescriptionDraftPanel } from './DescriptionDraftPanel';
+import { isDefaultItemName } from '../utils/itemNames';
+import { addMachineFlag, clearMachineFlag } from '../utils/machineTranslation';
+import { MachineTranslatedBadge } from './MachineTranslatedBadge';
+import { BulkImportDialog } from './BulkImportDialog';
+import { SetImageSlots } from './SetImageSlots';
+import { BackgroundRemovalDialog } from './BackgroundRemovalDialog';
+import { OutlineDialog } from './OutlineDialog';
+import { ImageToolTarget } from './ImageToolDialog';
+import { useUndoableState } from '../hooks/useUndoableState';
+import { useEditorDraft } from '../hooks/useEditorDraft';
+import { useSortableSensors } from '../hooks/useSortableSensors';
+import { getCompressionProfiles, loadDefaultCompressionProfileId, getCompressionProfile, resolveCompressionProfile } from '../services/compressionProfiles';
 
 interface StickerEditorProps {
   set: StickerSet;
@@ -11,47 +33,330 @@ interface StickerEditorProps {
   onBack: () => void;
 }
 
-const COUNT_OPTIONS = [8, 16, 24, 32, 40];
+const COUNT_OPTIONS = LINE_COUNTS;
+
+interface EditorState {
+  set: StickerSet;
+  // Items cut off by lowering the count, brought back first when it grows again (until saved)
+  trimmedItems: StickerItem[];
+}
 
 export const StickerEditor: React.FC<StickerEditorProps> = ({ set, allSeries, onSave, onBack }) => {
-  const [editedSet, setEditedSet] = useState<StickerSet>({ ...set });
-  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  const history = useUndoableState<EditorState>(() => ({ set: { ...set }, trimmedItems: [] }));
+  const editedSet = history.state.set;
+  const { undo, redo } = history;
+
+  /**
+   * Applies an edit as one undo step
+   * @param mergeKey - Field being typed in, so a burst of keystrokes undoes at once
+   */
+  const setEditedSet = useCallback((update: (prev: StickerSet) => StickerSet, mergeKey?: string) => {
+    history.set(state => {
+      const next = update(state.set);
+      return next === state.set ? state : { ...state, set: next };
+    }, mergeKey);
+  }, [history.set]);
+
+  // Images undo/redo can bring back: the draft keeps their blobs alive until the editor closes
+  const retainedImages = useMemo(() => [...history.past, ...history.future, history.state]
+    .flatMap(state => [...(state === history.state ? [] : setImageRefs(state.set)), ...state.trimmedItems])
+    .filter(image => image.imageId)
+    .map((image): SetImage => ({ imageId: image.imageId!, originalId: image.originalId })),
+  [history.past, history.future, history.state]);
+
+  const draft = useEditorDraft(set, editedSet, retainedImages);
+
+  const handleRecoverDraft = () => {
+    const recovered = draft.recover();
+    // Loaded as an edit, so it can be undone
+    if (recovered) setEditedSet(() => recovered);
+  };
+
+  const handleBack = async () => {
+    if (draft.isDirty && !confirm('尚未儲存的修改將會遺失，確定要離開嗎？')) return;
+    await draft.clear(true).catch(err => console.error('Failed to delete draft:', err));
+    onBack();
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), also inside text fields since typing is recorded too
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo(); else undo();
+      } else if (key === 'y' && !e.shiftKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
   const [isSaving, setIsSaving] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
 
-  const handleUpdateItem = useCallback((id: string, updates: Partial<StickerItem>) => {
+  // Platform validation
+  const profiles = getProfilesForType(editedSet.type);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const activeProfile = profiles.find(p => p.id === profileId) || profiles[0];
+  const [report, setReport] = useState<ValidationReport | null>(null);
+
+  useEffect(() => {
+    if (!activeProfile) {
+      setReport(null);
+      return;
+    }
+
+    // Debounced so typing in item names doesn't re-run the checks on every keystroke
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      validateStickerSet(editedSet, activeProfile)
+        .then(result => { if (!cancelled) setReport(result); })
+        .catch(err => console.error('Validation failed:', err));
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [editedSet.items, activeProfile]);
+
+  const invalidItemCount = report ? Object.keys(report.itemIssues).length : 0;
+
+  // AI name suggestions (item id -> proposed name)
+  const [nameSuggestions, setNameSuggestions] = useState<Record<string, string>>({});
+  const [suggestionStatus, setSuggestionStatus] = useState<SuggestionStatus>('idle');
+  const [suggestionError, setSuggestionError] = useState<string | null>(null);
+  const emptySlotIds = editedSet.items.filter(item => isDefaultItemName(item.name)).map(item => item.id);
+
+  const requestNameSuggestions = async (targetIds: string[]) => {
+    if (targetIds.length === 0) return;
+
+    setSuggestionStatus('loading');
+    setSuggestionError(null);
+    try {
+      const existingNames = editedSet.items
+        .filter(item => !targetIds.includes(item.id) && !isDefaultItemName(item.name))
+        .map(item => item.name);
+
+      const names = await suggestStickerNames({
+        title: editedSet.title,
+        series: editedSet.series,
+        description: editedSet.zhDesc || editedSet.enDesc,
+        count: targetIds.length,
+        existingNames
+      });
+
+      const proposals: Record<string, string> = {};
+      targetIds.forEach((id, i) => {
+        if (names[i]) proposals[id] = names[i];
+      });
+      setNameSuggestions(prev => ({ ...prev, ...proposals }));
+      setSuggestionStatus('idle');
+    } catch (e: any) {
+      console.error('Name suggestion failed:', e);
+      setSuggestionError(e.message || '名稱建議失敗');
+      setSuggestionStatus('error');
+    }
+  };
+
+  const handleRejectSuggestion = useCallback((id: string) => {
+    setNameSuggestions(prev => {
+      const { [id]: _, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  const handleAcceptSuggestion = (id: string) => {
+    const name = nameSuggestions[id];
+    if (name) handleUpdateItem(id, { name });
+    handleRejectSuggestion(id);
+  };
+
+  // AI description draft
+  const descriptionLimit = (activeProfile ?? LINE_STICKER_PROFILE).textLimits.description;
+  const [descriptionDraft, setDescriptionDraft] = useState<DescriptionDraft | null>(null);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const handleDraftDescription = async () => {
+    setIsDrafting(true);
+    setDraftError(null);
+    try {
+      const draft = await draftDescriptions({
+        title: editedSet.title,
+        enTitle: editedSet.enTitle,
+        series: editedSet.series,
+        type: editedSet.type,
+        itemNames: editedSet.items.map(item => item.name).filter(name => !isDefaultItemName(name)),
+        maxLength: { zh: descriptionLimit, en: descriptionLimit }
+      });
+      setDescriptionDraft(draft);
+    } catch (e: any) {
+      console.error('Description draft failed:', e);
+      setDraftError(e.message || '介紹生成失敗');
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const handleAcceptDraft = (field: keyof DescriptionDraft) => {
+    if (!descriptionDraft) return;
+    setEditedSet(prev => ({ ...prev, [field]: descriptionDraft[field] }));
+  };
+
+  const handleAcceptAllSuggestions = () => {
     setEditedSet(prev => ({
       ...prev,
-      items: prev.items.map(item => item.id === id ? { ...item, ...updates } : item)
+      items: prev.items.map(item => nameSuggestions[item.id]
+        ? { ...item, name: nameSuggestions[item.id], machineTranslated: clearMachineFlag(item.machineTranslated, 'name') }
+        : item)
     }));
-  }, []);
+    setNameSuggestions({});
+  };
+
+  // AI translation of one-sided bilingual fields
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [translationMessage, setTranslationMessage] = useState<string | null>(null);
 
-  const handleItemClick = (id: string) => {
-    if (selectedItemId === null) {
-      setSelectedItemId(id);
-    } else if (selectedItemId === id) {
-      setSelectedItemId(null); // Deselect
-    } else {
-      // Swap items
+  const handleTranslateMissing = async () => {
+    setIsTranslating(true);
+    setTranslationMessage(null);
+    try {
+      const requested = editedSet;
+      const { set: translated, count } = await translateMissing(requested);
+      // A translation only fills a field still as it was when the request went out:
+      // edits made meanwhile win, and flags cleared by hand on other fields stay cleared
       setEditedSet(prev => {
-        const items = [...prev.items];
-        const indexA = items.findIndex(i => i.id === selectedItemId);
-        const indexB = items.findIndex(i => i.id === id);
-
-        if (indexA !== -1 && indexB !== -1) {
-          const temp = items[indexA];
-          items[indexA] = items[indexB];
-          items[indexB] = temp;
-        }
-        return { ...prev, items };
+        let next = prev;
+        (translated.machineTranslated || []).forEach(field => {
+          if (translated[field] === requested[field] || prev[field] !== requested[field]) return;
+          next = { ...next, [field]: translated[field], machineTranslated: addMachineFlag(next.machineTranslated, field) };
+        });
+        return {
+          ...next,
+          items: prev.items.map(item => {
+            const before = requested.items.find(i => i.id === item.id);
+            const after = translated.items.find(i => i.id === item.id);
+            if (!before || !after) return item;
+            let merged = item;
+            (after.machineTranslated || []).forEach(field => {
+              if (after[field] === before[field] || item[field] !== before[field]) return;
+              merged = { ...merged, [field]: after[field], machineTranslated: addMachineFlag(merged.machineTranslated, field) };
+            });
+            return merged;
+          })
+        };
       });
-      setSelectedItemId(null);
+      setTranslationMessage(count > 0 ? `已翻譯 ${count} 個欄位` : '沒有需要翻譯的欄位');
+    } catch (e: any) {
+      console.error('Translation failed:', e);
+      setTranslationMessage(`翻譯失敗：${e.message}`);
+    } finally {
+      setIsTranslating(false);
     }
   };
 
+  const handleUpdateItem = useCallback((id: string, updates: Partial<StickerItem>) => {
+    // Text edits of one field merge into one undo step; image changes always get their own
+    const keys = Object.keys(updates);
+    const mergeKey = keys.length === 1 && (keys[0] === 'name' || keys[0] === 'enName') ? `item:${id}:${keys[0]}` : undefined;
+    setEditedSet(prev => ({
+      ...prev,
+      items: prev.items.map(item => {
+        if (item.id !== id) return item;
+        // Any edit of a name counts as human review of its translation
+        let machineTranslated = item.machineTranslated;
+        if ('name' in updates) machineTranslated = clearMachineFlag(machineTranslated, 'name');
+        if ('enName' in updates) machineTranslated = clearMachineFlag(machineTranslated, 'enName');
+        return { ...item, ...updates, machineTranslated };
+      })
+    }), mergeKey);
+  }, [setEditedSet]);
+
+  const updateSetText = (field: TranslatableSetField, value: string) => {
+    setEditedSet(prev => ({
+      ...prev,
+      [field]: value,
+      machineTranslated: clearMachineFlag(prev.machineTranslated, field)
+    }), `set:${field}`);
+  };
+
+  const isMachineTranslated = (field: TranslatableSetField) => !!editedSet.machineTranslated?.includes(field);
+
+  const sensors = useSortableSensors();
+
+  // Bulk image import: several files dropped on the grid, picked, or a whole folder
+  const [bulkFiles, setBulkFiles] = useState<File[] | null>(null);
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    // Not in React's input typings
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const handlePickedFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length > 0) setBulkFiles(files);
+  };
+
+  const handleGridDragOver = (e: React.DragEvent) => {
+    if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+  };
+
+  const handleGridDrop = (e: React.DragEvent) => {
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    setBulkFiles(files);
+  };
+
+  const applyBulkImages = (images: Record<string, Pick<StickerItem, 'imageId' | 'originalId'>>) => {
+    setEditedSet(prev => ({
+      ...prev,
+      items: prev.items.map(item => images[item.id] ? { ...item, ...images[item.id] } : item)
+    }));
+  };
+
+  // Canvas image tools: one item from its card, or every item with an image
+  const [imageTool, setImageTool] = useState<{ tool: 'background' | 'outline'; targets: ImageToolTarget[] } | null>(null);
+  const [showTransparency, setShowTransparency] = useState(false);
+
+  const openImageTool = (tool: 'background' | 'outline', itemId?: string) => {
+    const targets = editedSet.items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => item.imageId && (!itemId || item.id === itemId));
+    if (targets.length > 0) setImageTool({ tool, targets });
+  };
+
+  // New uploads and processed images get their preview from the set's profile
+  const compressionProfile = resolveCompressionProfile(editedSet);
+
+  const handleSetImagesChange = (images: Partial<Pick<StickerSet, 'mainImage' | 'tabImage'>>) => {
+    setEditedSet(prev => ({ ...prev, ...images }));
+  };
+
+  // Moves the dragged item to the drop position, shifting the ones in between
+  const handleItemDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    setEditedSet(prev => {
+      const from = prev.items.findIndex(i => i.id === active.id);
+      const to = prev.items.findIndex(i => i.id === over.id);
+      if (from === -1 || to === -1) return prev;
+      return { ...prev, items: arrayMove(prev.items, from, to) };
+    });
+  };
+
   const handleSaveClick = async () => {
     setIsSaving(true);
     try {
       await onSave(editedSet);
+      await draft.clear();
     } catch (e) {
       alert("儲存失敗，請重試");
       console.error(e);
@@ -60,24 +365,48 @@ export const StickerEditor: React.FC<StickerEditorProps> = ({ set, allSeries, on
     }
   };
 
+  const handleExportLine = async () => {
+    setIsExporting(true);
+    try {
+      const result = await buildLinePackage(editedSet);
+      downloadBlob(result.blob, result.filename);
+      if (result.skippedItems.length > 0) {
+        alert(`已匯出 ${result.imageCount} 張圖片。\n\n以下項目沒有圖片，已略過：\n${result.skippedItems.join('、')}`);
+      }
+    } catch (e: any) {
+      alert(`LINE 匯出失敗：${e.message}`);
+      console.error(e);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleCountChange = (newCount: number) => {
-    setEditedSet(prev => {
+    history.set(({ set: prev, trimmedItems }) => {
       let newItems = [...prev.items];
+      let trimmed = trimmedItems;
       if (newCount < prev.items.length) {
         newItems = newItems.slice(0, newCount);
+        // Keep the removed items (and their images) so raising the count restores them
+        trimmed = [...prev.items.slice(newCount), ...trimmedItems];
       } else if (newCount > prev.items.length) {
-        const diff = newCount - prev.items.length;
+        const restored = trimmedItems.slice(0, newCount - prev.items.length);
+        trimmed = trimmedItems.slice(restored.length);
+        const diff = newCount - prev.items.length - restored.length;
+        const start = prev.items.length + restored.length;
         const additional = Array.from({ length: diff }, (_, i) => ({
           id: `new-${Date.now()}-${i}`,
-          originalOrder: prev.items.length + i + 1,
-          name: `Image ${prev.items.length + i + 1}`
+          originalOrder: start + i + 1,
+          name: `Image ${start + i + 1}`
         }));
-        newItems = [...newItems, ...additional];
+        newItems = [...newItems, ...restored, ...additional];
       }
-      return { ...prev, itemCount: newCount, items: newItems };
+      return { set: { ...prev, itemCount: newCount, items: newItems }, trimmedItems: trimmed };
     });
   };
 
+  const trimmedImageCount = history.state.trimmedItems.filter(item => item.imageId).length;
+
   const openStoreUrl = () => {
     if (editedSet.storeUrl) {
       window.open(editedSet.storeUrl, '_blank');
@@ -92,30 +421,54 @@ export const StickerEditor: React.FC<StickerEditorProps> = ({ set, allSeries, on
 
       {/* Header Navigation */}
       <div className="flex justify-between items-center mb-16 border-b border-[#E5E0D8] pb-6">
-        <Button variant="ghost" onClick={onBack} size="sm" className="pl-0 hover:pl-2 transition-all text-sm">
+        <Button variant="ghost" onClick={handleBack} size="sm" className="pl-0 hover:pl-2 transition-all text-sm">
           <span className="mr-2">←</span> Retour
         </Button>
-        <div className="text-xs uppercase tracking-[0.3em] text-[#7D7489]">Mode Éditeur</div>
-        <div className="w-20"></div> {/* Spacer for balance */}
+        <div className="text-xs uppercase tracking-[0.3em] text-[#7D7489] flex items-center gap-2">
+          Mode Éditeur
+          {draft.isDirty && <span className="w-1.5 h-1.5 rounded-full bg-[#D8D2CB]" title="尚未儲存"></span>}
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={undo} disabled={!history.canUndo} title="Annuler (Ctrl+Z)" className="text-sm disabled:opacity-30">
+            ↶
+          </Button>
+          <Button variant="ghost" size="sm" onClick={redo} disabled={!history.canRedo} title="Rétablir (Ctrl+Shift+Z)" className="text-sm disabled:opacity-30">
+            ↷
+          </Button>
+        </div>
       </div>
 
+      {draft.recoverable && (
+        <div className="-mt-8 mb-12 flex flex-wrap items-center gap-4 p-4 border border-[#E5E0D8] bg-[#F9F8F6] text-xs font-fangsong text-[#7D7489]">
+          <span className="flex-1">
+            發現 {new Date(draft.recoverable.savedAt).toLocaleString('zh-TW')} 自動保存、尚未儲存的草稿。
+            {(set.updatedAt || 0) > draft.recoverable.savedAt && ' 此貼圖集在那之後已有其他更新，恢復草稿會覆蓋它們。'}
+          </span>
+          <Button onClick={handleRecoverDraft} variant="outline" size="sm">Récupérer</Button>
+          <Button onClick={draft.dismiss} variant="ghost" size="sm">Ignorer</Button>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 xl:grid-cols-12 gap-16 mb-20">
 
         {/* Left: Project Identity */}
         <div className="xl:col-span-6 space-y-10">
           <div>
-            <label className="block text-xs uppercase tracking-[0.2em] text-[#9F97A8] mb-3 font-cormorant">Titre du Projet</label>
+            <label className="block text-xs uppercase tracking-[0.2em] text-[#9F97A8] mb-3 font-cormorant">
+              Titre du Projet
+              <MachineTranslatedBadge show={isMachineTranslated('title') || isMachineTranslated('enTitle')} className="ml-2" />
+            </label>
             <input
               type="text"
               value={editedSet.title}
-              onChange={(e) => setEditedSet(prev => ({ ...prev, title: e.target.value }))}
+              onChange={(e) => updateSetText('title', e.target.value)}
               className="w-full text-3xl md:text-4xl font-fangsong bg-transparent border-b border-[#E5E0D8] focus:border-[#7D7489] focus:outline-none pb-3 text-[#2C2C2C] placeholder-[#E5E0D8]"
               placeholder="中文標題"
             />
             <input
               type="text"
               value={editedSet.enTitle}
-              onChange={(e) => setEditedSet(prev => ({ ...prev, enTitle: e.target.value }))}
+              onChange={(e) => updateSetText('enTitle', e.target.value)}
               className="w-full text-xl md:text-2xl font-cormorant italic mt-4 bg-transparent border-b border-transparent focus:border-[#E5E0D8] focus:outline-none pb-2 text-[#7D7489] placeholder-[#F0EEEB]"
               placeholder="English Title"
             />
@@ -158,6 +511,11 @@ export const StickerEditor: React.FC<StickerEditorProps> = ({ set, allSeries, on
               >
                 {COUNT_OPTIONS.map(opt => <option key={opt} value={opt}>{opt} Images</option>)}
               </select>
+              {trimmedImageCount > 0 && (
+                <p className="mt-2 text-[10px] text-[#9F97A8] font-fangsong">
+                  已移除 {trimmedImageCount} 張有圖片的項目，增加數量或復原 (Ctrl+Z) 即可找回；儲存後將無法恢復。
+                </p>
+              )}
             </div>
 
             <div>
@@ -166,7 +524,7 @@ export const StickerEditor: React.FC<StickerEditorProps> = ({ set, allSeries, on
                 type="text"
                 list="series-suggestions"
                 value={editedSet.series}
-                onChange={(e) => setEditedSet(prev => ({ ...prev, series: e.target.value }))}
+                onChange={(e) => setEditedSet(prev => ({ ...prev, series: e.target.value }), 'set:series')}
                 className="w-full text-sm font-fangsong bg-transparent border-b border-[#E5E0D8] py-2 focus:outline-none focus:border-[#7D7489]"
                 placeholder="未分類"
               />
@@ -178,7 +536,7 @@ export const StickerEditor: React.FC<StickerEditorProps> = ({ set, allSeries, on
                 <input
                   type="url"
                   value={editedSet.storeUrl}
-                  onChange={(e) => setEditedSet(prev => ({ ...prev, storeUrl: e.target.value }))}
+                  onChange={(e) => setEditedSet(prev => ({ ...prev, storeUrl: e.target.value }), 'set:storeUrl')}
                   placeholder="https://store.line.me/..."
                   className="flex-1 text-sm font-cormorant bg-transparent focus:outline-none placeholder-[#E5E0D8]"
                 />
@@ -189,6 +547,21 @@ export const StickerEditor: React.FC<StickerEditorProps> = ({ set, allSeries, on
                 )}
               </div>
             </div>
+
+            <div>
+              <label className="block text-xs uppercase tracking-[0.2em] text-[#9F97A8] mb-3 font-cormorant">Compression</label>
+              <select
+                value={editedSet.compressionProfile || ''}
+                onChange={(e) => setEditedSet(prev => ({ ...prev, compressionProfile: e.target.value || undefined }))}
+                className="w-full text-sm font-fangsong bg-transparent border-b border-[#E5E0D8] py-2 rounded-none focus:outline-none focus:border-[#7D7489] cursor-pointer"
+              >
+                <option value="">預設（{getCompressionProfile(loadDefaultCompressionProfileId()).label}）</option>
+                {getCompressionProfiles().map(profile => <option key={profile.id} value={profile.id}>{profile.label}</option>)}
+              </select>
+              <p className="mt-2 text-[10px] text-[#D8D2CB] font-fangsong">套用於之後上傳或處理的圖片；現有預覽圖可在首頁用「一鍵壓縮」重新產生。</p>
+            </div>
+
+            <SetImageSlots set={editedSet} onChange={handleSetImagesChange} />
           </div>
         </div>
 
@@ -196,29 +569,50 @@ export const StickerEditor: React.FC<StickerEditorProps> = ({ set, allSeries, on
         <div className="xl:col-span-6 flex flex-col justify-between pl-0 xl:pl-16 border-l-0 xl:border-l border-[#F3F0EB]">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-10 mb-10">
             <div className="bg-white p-6 shadow-[0_2px_10px_rgba(125,116,137,0.05)] border border-transparent hover:border-[#E5E0D8] transition-colors">
-              <label className="block text-xs uppercase tracking-[0.2em] text-[#D8D2CB] mb-4 font-cormorant text-center">Description (Chinois)</label>
+              <label className="block text-xs uppercase tracking-[0.2em] text-[#D8D2CB] mb-4 font-cormorant text-center">Description (Chinois) <MachineTranslatedBadge show={isMachineTranslated('zhDesc')} /></label>
               <textarea
                 value={editedSet.zhDesc}
-                onChange={(e) => setEditedSet(prev => ({ ...prev, zhDesc: e.target.value }))}
+                onChange={(e) => updateSetText('zhDesc', e.target.value)}
                 className="w-full h-32 text-sm font-fangsong bg-transparent border-none p-0 focus:outline-none resize-none leading-relaxed text-center placeholder-[#F3F0EB]"
                 placeholder="請輸入中文介紹..."
               />
             </div>
             <div className="bg-white p-6 shadow-[0_2px_10px_rgba(125,116,137,0.05)] border border-transparent hover:border-[#E5E0D8] transition-colors">
-              <label className="block text-xs uppercase tracking-[0.2em] text-[#D8D2CB] mb-4 font-cormorant text-center">Description (Anglais)</label>
+              <label className="block text-xs uppercase tracking-[0.2em] text-[#D8D2CB] mb-4 font-cormorant text-center">Description (Anglais) <MachineTranslatedBadge show={isMachineTranslated('enDesc')} /></label>
               <textarea
                 value={editedSet.enDesc}
-                onChange={(e) => setEditedSet(prev => ({ ...prev, enDesc: e.target.value }))}
+                onChange={(e) => updateSetText('enDesc', e.target.value)}
                 className="w-full h-32 text-sm font-cormorant italic bg-transparent border-none p-0 focus:outline-none resize-none leading-relaxed text-center placeholder-[#F3F0EB]"
                 placeholder="Enter English description..."
               />
             </div>
           </div>
 
+          <div className="mb-10 space-y-4">
+            <div className="flex items-center gap-4">
+              <Button onClick={handleDraftDescription} variant="ghost" size="sm" disabled={isDrafting} className="text-xs pl-0">
+                {isDrafting ? '撰寫中...' : 'AI 撰寫介紹'}
+              </Button>
+              {draftError && <span className="text-xs text-red-400 font-fangsong">{draftError}</span>}
+            </div>
+            {descriptionDraft && (
+              <DescriptionDraftPanel
+                draft={descriptionDraft}
+                current={{ zhDesc: editedSet.zhDesc, enDesc: editedSet.enDesc }}
+                maxLength={descriptionLimit}
+                onAccept={handleAcceptDraft}
+                onClose={() => setDescriptionDraft(null)}
+              />
+            )}
+          </div>
+
           <div className="flex justify-end items-center gap-6 pt-8 border-t border-[#F3F0EB]">
             <div className="text-xs text-[#D8D2CB] italic font-cormorant mr-auto hidden md:block">
-              * Click two items to swap positions
+              * Drag ⠿ to reorder items
             </div>
+            <Button onClick={handleExportLine} variant="outline" disabled={isExporting}>
+              {isExporting ? 'Exportation...' : 'Export LINE'}
+            </Button>
             <Button onClick={handleSaveClick} variant="primary" disabled={isSaving}>
               {isSaving ? 'Enregistrement...' : 'Enregistrer'}
             </Button>
@@ -226,23 +620,142 @@ export const StickerEditor: React.FC<StickerEditorProps> = ({ set, allSeries, on
         </div>
       </div>
 
-      <div className="relative">
+      {/* AI Name Suggestions */}
+      <div className="mb-6">
+        <NameSuggestionPanel
+          status={suggestionStatus}
+          error={suggestionError}
+          pendingCount={Object.keys(nameSuggestions).length}
+          emptySlotCount={emptySlotIds.length}
+          onSuggestAll={() => requestNameSuggestions(editedSet.items.map(item => item.id))}
+          onRegenerateEmpty={() => requestNameSuggestions(emptySlotIds)}
+          onAcceptAll={handleAcceptAllSuggestions}
+          onDismiss={() => setNameSuggestions({})}
+        />
+        <div className="mt-3 flex items-center gap-4">
+          <span className="text-xs uppercase tracking-[0.2em] text-[#9F97A8] font-cormorant shrink-0">Traduction</span>
+          <Button onClick={handleTranslateMissing} variant="ghost" size="sm" disabled={isTranslating} className="text-xs">
+            {isTranslating ? '翻譯中...' : '翻譯缺少的欄位'}
+          </Button>
+          {translationMessage && <span className="text-xs text-[#9F97A8] font-fangsong">{translationMessage}</span>}
+        </div>
+      </div>
+
+      {/* Platform Validation */}
+      {activeProfile && (
+        <div className="mb-10 flex flex-col md:flex-row md:items-start gap-4 md:gap-8">
+          <div className="flex items-center gap-3 shrink-0">
+            <span className="text-xs uppercase tracking-[0.2em] text-[#9F97A8] font-cormorant">Conformité</span>
+            <select
+              value={activeProfile.id}
+              onChange={(e) => setProfileId(e.target.value)}
+              className="text-sm font-fangsong bg-transparent border-b border-[#E5E0D8] py-1 rounded-none focus:outline-none focus:border-[#7D7489] cursor-pointer"
+            >
+              {profiles.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </div>
+          {report && (
+            <div className="text-xs font-fangsong space-y-1">
+              {report.setIssues.length === 0 && invalidItemCount === 0 ? (
+                <div className="text-[#7D7489]">✓ 符合 {activeProfile.label} 規格</div>
+              ) : (
+                <>
+                  {report.setIssues.map(issue => (
+                    <div key={issue.rule} className="text-red-400">• {issue.message}</div>
+                  ))}
+                  {invalidItemCount > 0 && (
+                    <div className="text-red-400">• {invalidItemCount} 個項目不符合規格</div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="mb-4 flex items-center gap-4">
+        <span className="text-xs uppercase tracking-[0.2em] text-[#9F97A8] font-cormorant shrink-0">Images</span>
+        <Button onClick={() => filesInputRef.current?.click()} variant="ghost" size="sm" className="text-xs">
+          選擇多張圖片
+        </Button>
+        <Button onClick={() => folderInputRef.current?.click()} variant="ghost" size="sm" className="text-xs">
+          選擇資料夾
+        </Button>
+        <Button onClick={() => openImageTool('background')} variant="ghost" size="sm" className="text-xs" disabled={!editedSet.items.some(item => item.imageId)}>
+          批次去背
+        </Button>
+        <Button onClick={() => openImageTool('outline')} variant="ghost" size="sm" className="text-xs" disabled={!editedSet.items.some(item => item.imageId)}>
+          批次描邊
+        </Button>
+        <Button
+          onClick={() => setShowTransparency(show => !show)}
+          variant="ghost"
+          size="sm"
+          className={`text-xs ${showTransparency ? 'text-[#2C2C2C]' : ''}`}
+          title="以棋盤格背景顯示原始檔的透明區域"
+        >
+          {showTransparency ? '透明預覽：開' : '透明預覽：關'}
+        </Button>
+        <span className="text-[10px] text-[#D8D2CB] font-fangsong hidden md:inline">也可以一次拖放多張圖片到下方</span>
+        <input ref={filesInputRef} type="file" accept="image/*" multiple onChange={handlePickedFiles} className="hidden" />
+        <input ref={folderInputRef} type="file" multiple onChange={handlePickedFiles} className="hidden" />
+      </div>
+
+      <div className="relative" onDragOver={handleGridDragOver} onDrop={handleGridDrop}>
         {/* Visual Line */}
         <div className="absolute left-0 right-0 top-0 h-px bg-gradient-to-r from-transparent via-[#D8D2CB] to-transparent"></div>
 
-        <div className="pt-12 grid grid-cols-2 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-8 gap-4 sm:gap-6">
-          {editedSet.items.map((item, index) => (
-            <StickerItemCard
-              key={item.id}
-              item={item}
-              index={index}
-              isSelected={selectedItemId === item.id}
-              onSelect={handleItemClick}
-              onUpdate={handleUpdateItem}
-            />
-          ))}
-        </div>
+        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleItemDragEnd}>
+          <SortableContext items={editedSet.items.map(item => item.id)} strategy={rectSortingStrategy}>
+            <div className="pt-12 grid grid-cols-2 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-8 gap-4 sm:gap-6">
+              {editedSet.items.map((item, index) => (
+                <StickerItemCard
+                  key={item.id}
+                  item={item}
+                  index={index}
+                  onUpdate={handleUpdateItem}
+                  issues={report?.itemIssues[item.id]}
+                  suggestion={nameSuggestions[item.id]}
+                  onAcceptSuggestion={handleAcceptSuggestion}
+                  onRejectSuggestion={handleRejectSuggestion}
+                  showTransparency={showTransparency}
+                  onRemoveBackground={(id) => openImageTool('background', id)}
+                  onOutline={(id) => openImageTool('outline', id)}
+                  compressionProfile={compressionProfile}
+                />
+              ))}
+            </div>
+          </SortableContext>
+        </DndContext>
       </div>
+
+      {bulkFiles && (
+        <BulkImportDialog
+          files={bulkFiles}
+          items={editedSet.items}
+          onApply={applyBulkImages}
+          onClose={() => setBulkFiles(null)}
+          compressionProfile={compressionProfile}
+        />
+      )}
+
+      {imageTool?.tool === 'background' && (
+        <BackgroundRemovalDialog
+          targets={imageTool.targets}
+          onApply={applyBulkImages}
+          onClose={() => setImageTool(null)}
+          compressionProfile={compressionProfile}
+        />
+      )}
+
+      {imageTool?.tool === 'outline' && (
+        <OutlineDialog
+          targets={imageTool.targets}
+          onApply={applyBulkImages}
+          onClose={() => setImageTool(null)}
+          compressionProfile={compressionProfile}
+        />
+      )}
     </div>
   );
 };
@@ -1,20 +1,52 @@
 
 import React, { useRef, useState } from 'react';
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
 import { StickerItem } from '../types';
-import { compressImage } from '../utils/imageCompression';
+import { storeUploadedImage } from '../services/imageUpload';
+import { CompressionProfile } from '../services/compressionProfiles';
+import { useImageUrl } from '../hooks/useImageUrl';
+import { MachineTranslatedBadge } from './MachineTranslatedBadge';
+import { ValidationIssue } from '../services/platformValidator';
 
 interface StickerItemCardProps {
   item: StickerItem;
   index: number;
-  isSelected: boolean;
-  onSelect: (id: string) => void;
   onUpdate: (id: string, updates: Partial<StickerItem>) => void;
+  issues?: ValidationIssue[];
+  suggestion?: string;
+  onAcceptSuggestion?: (id: string) => void;
+  onRejectSuggestion?: (id: string) => void;
+  /** Shows the lossless original on a checkerboard, so transparent areas are visible */
+  showTransparency?: boolean;
+  onRemoveBackground?: (id: string) => void;
+  onOutline?: (id: string) => void;
+  /** How the preview of an upload is made */
+  compressionProfile?: CompressionProfile;
 }
 
-export const StickerItemCard: React.FC<StickerItemCardProps> = ({ item, index, isSelected, onSelect, onUpdate }) => {
+export const StickerItemCard: React.FC<StickerItemCardProps> = ({
+  item,
+  index,
+  onUpdate,
+  issues,
+  suggestion,
+  onAcceptSuggestion,
+  onRejectSuggestion,
+  showTransparency,
+  onRemoveBackground,
+  onOutline,
+  compressionProfile
+}) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isCompressing, setIsCompressing] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
+  const previewUrl = useImageUrl(item.imageId);
+  // The JPEG preview is flattened onto paper, only the original shows real transparency
+  const originalUrl = useImageUrl(showTransparency ? item.originalId : undefined, 'original');
+  const imageUrl = (showTransparency && originalUrl) || previewUrl;
+  // Sortable within the editor grid, dragged by the handle only (the card itself takes file drops)
+  const { attributes, listeners, setNodeRef, setActivatorNodeRef, transform, transition, isDragging: isMoving } = useSortable({ id: item.id });
 
   const handleFileUpload = async (file: File) => {
     if (!file.type.startsWith('image/')) {
@@ -24,9 +56,7 @@ export const StickerItemCard: React.FC<StickerItemCardProps> = ({ item, index, i
 
     try {
       setIsCompressing(true);
-      // Compress image before storing
-      const compressedDataUrl = await compressImage(file, 800, 0.85);
-      onUpdate(item.id, { imageUrl: compressedDataUrl });
+      onUpdate(item.id, await storeUploadedImage(file, compressionProfile));
     } catch (error) {
       console.error('圖片壓縮失敗:', error);
       alert('圖片上傳失敗，請重試');
@@ -56,8 +86,10 @@ export const StickerItemCard: React.FC<StickerItemCardProps> = ({ item, index, i
 
   const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
-    e.stopPropagation();
     setIsDragging(false);
+    // Several files: let the editor grid map them onto items
+    if (e.dataTransfer.files.length > 1) return;
+    e.stopPropagation();
 
     const file = e.dataTransfer.files?.[0];
     if (file) {
@@ -65,11 +97,6 @@ export const StickerItemCard: React.FC<StickerItemCardProps> = ({ item, index, i
     }
   };
 
-  const handleSwapClick = (e: React.MouseEvent) => {
-    e.stopPropagation(); // Prevent any parent handlers
-    onSelect(item.id);
-  };
-
   const triggerUpload = (e: React.MouseEvent) => {
     e.stopPropagation();
     fileInputRef.current?.click();
@@ -78,49 +105,59 @@ export const StickerItemCard: React.FC<StickerItemCardProps> = ({ item, index, i
   const handleDelete = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (window.confirm('確定要刪除這張圖片嗎？')) {
-      onUpdate(item.id, { imageUrl: undefined });
+      onUpdate(item.id, { imageId: undefined, originalId: undefined });
     }
   };
 
   return (
     <div
-      className={`group relative p-4 transition-all duration-500 ${isSelected
-          ? 'bg-white shadow-[0_4px_20px_rgba(125,116,137,0.1)] transform -translate-y-1'
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition, zIndex: isMoving ? 50 : undefined }}
+      className={`group relative p-4 transition-[background-color,box-shadow] duration-500 ${isMoving
+          ? 'bg-white shadow-[0_4px_20px_rgba(125,116,137,0.1)]'
           : 'bg-transparent hover:bg-white/50'
         }`}
     >
-      {/* Elegant Border Effect for Selected State */}
-      <div className={`absolute inset-0 pointer-events-none transition-all duration-500 border ${isSelected ? 'border-[#7D7489] opacity-40' : 'border-transparent opacity-0'
+      {/* Elegant Border Effect while dragged */}
+      <div className={`absolute inset-0 pointer-events-none transition-all duration-500 border ${isMoving ? 'border-[#7D7489] opacity-40' : 'border-transparent opacity-0'
         }`}></div>
-      <div className={`absolute inset-1 pointer-events-none transition-all duration-500 border ${isSelected ? 'border-[#E6E4E9]' : 'border-transparent'
+      <div className={`absolute inset-1 pointer-events-none transition-all duration-500 border ${isMoving ? 'border-[#E6E4E9]' : 'border-transparent'
         }`}></div>
 
       <div className="flex justify-between items-center mb-3">
-        <div className={`text-sm md:text-base font-cormorant italic tracking-widest transition-colors ${isSelected ? 'text-[#7D7489]' : 'text-[#9F97A8]'
+        <div className={`text-sm md:text-base font-cormorant italic tracking-widest transition-colors ${isMoving ? 'text-[#7D7489]' : 'text-[#9F97A8]'
           }`}>
           NO. {(index + 1).toString().padStart(2, '0')}
+          {issues && issues.length > 0 && (
+            <span
+              className="ml-2 inline-block w-1.5 h-1.5 bg-red-400 rounded-full align-middle"
+              title={issues.map(i => i.message).join('\n')}
+            ></span>
+          )}
         </div>
 
-        {/* Swap Button */}
+        {/* Drag Handle */}
         <button
-          onClick={handleSwapClick}
-          className={`group/swap transition-all duration-300 p-1.5 rounded-full ${
-            isSelected
+          type="button"
+          ref={setActivatorNodeRef}
+          {...attributes}
+          {...listeners}
+          className={`transition-all duration-300 p-1.5 rounded-full touch-none cursor-grab active:cursor-grabbing focus:opacity-100 ${
+            isMoving
               ? 'bg-[#7D7489] text-white'
               : 'bg-[#E5E0D8] text-[#9F97A8] hover:bg-[#7D7489] hover:text-white opacity-0 group-hover:opacity-100'
           }`}
-          title={isSelected ? '取消選擇' : '點擊選擇以交換位置'}
+          title="拖曳以調整順序（鍵盤：空白鍵拿起，方向鍵移動）"
         >
           <svg width="12" height="12" viewBox="0 0 15 15" fill="none">
-            <path d="M8.84182 3.13514C9.04327 3.32401 9.05348 3.64042 8.86462 3.84188L5.43521 7.49991L8.86462 11.1579C9.05348 11.3594 9.04327 11.6758 8.84182 11.8647C8.64036 12.0535 8.32394 12.0433 8.13508 11.8419L4.38508 7.84188C4.20477 7.64955 4.20477 7.35027 4.38508 7.15794L8.13508 3.15794C8.32394 2.95648 8.64036 2.94628 8.84182 3.13514Z" fill="currentColor" fillRule="evenodd" clipRule="evenodd"/>
-            <path d="M6.15819 3.13514C6.35964 2.94628 6.67606 2.95648 6.86492 3.15794L10.6149 7.15794C10.7952 7.35027 10.7952 7.64955 10.6149 7.84188L6.86492 11.8419C6.67606 12.0433 6.35964 12.0535 6.15819 11.8647C5.95673 11.6758 5.94652 11.3594 6.13538 11.1579L9.56479 7.49991L6.13538 3.84188C5.94652 3.64042 5.95673 3.32401 6.15819 3.13514Z" fill="currentColor" fillRule="evenodd" clipRule="evenodd"/>
+            <path d="M5.5 4.625C6.12132 4.625 6.625 4.12132 6.625 3.5C6.625 2.87868 6.12132 2.375 5.5 2.375C4.87868 2.375 4.375 2.87868 4.375 3.5C4.375 4.12132 4.87868 4.625 5.5 4.625ZM9.5 4.625C10.1213 4.625 10.625 4.12132 10.625 3.5C10.625 2.87868 10.1213 2.375 9.5 2.375C8.87868 2.375 8.375 2.87868 8.375 3.5C8.375 4.12132 8.87868 4.625 9.5 4.625ZM10.625 7.5C10.625 8.12132 10.1213 8.625 9.5 8.625C8.87868 8.625 8.375 8.12132 8.375 7.5C8.375 6.87868 8.87868 6.375 9.5 6.375C10.1213 6.375 10.625 6.87868 10.625 7.5ZM5.5 8.625C6.12132 8.625 6.625 8.12132 6.625 7.5C6.625 6.87868 6.12132 6.375 5.5 6.375C4.87868 6.375 4.375 6.87868 4.375 7.5C4.375 8.12132 4.87868 8.625 5.5 8.625ZM10.625 11.5C10.625 12.1213 10.1213 12.625 9.5 12.625C8.87868 12.625 8.375 12.1213 8.375 11.5C8.375 10.8787 8.87868 10.375 9.5 10.375C10.1213 10.375 10.625 10.8787 10.625 11.5ZM5.5 12.625C6.12132 12.625 6.625 12.1213 6.625 11.5C6.625 10.8787 6.12132 10.375 5.5 10.375C4.87868 10.375 4.375 10.8787 4.375 11.5C4.375 12.1213 4.87868 12.625 5.5 12.625Z" fill="currentColor" fillRule="evenodd" clipRule="evenodd"/>
           </svg>
         </button>
       </div>
 
       <div
         className={`aspect-square w-full mb-4 flex items-center justify-center relative transition-all duration-500 overflow-hidden ${
-          item.imageUrl ? '' : 'bg-[#F9F8F6] border border-dashed border-[#E5E0D8]'
+          item.imageId ? (showTransparency ? 'bg-checkerboard' : '') : 'bg-[#F9F8F6] border border-dashed border-[#E5E0D8]'
         } ${
           isDragging ? 'border-[#7D7489] border-2 bg-[#F3F0F5]' : ''
         }`}
@@ -140,8 +177,8 @@ export const StickerItemCard: React.FC<StickerItemCardProps> = ({ item, index, i
             </svg>
             <span className="text-[10px] font-cormorant tracking-widest">拖放圖片到此</span>
           </div>
-        ) : item.imageUrl ? (
-          <img src={item.imageUrl} alt={item.name} className="w-full h-full object-contain p-1" />
+        ) : imageUrl ? (
+          <img src={imageUrl} alt={item.name} className="w-full h-full object-contain p-1" />
         ) : (
           <div className="text-[#E5E0D8] flex flex-col items-center">
             <span className="font-cormorant italic text-lg opacity-50">+</span>
@@ -149,7 +186,7 @@ export const StickerItemCard: React.FC<StickerItemCardProps> = ({ item, index, i
         )}
 
         {/* Delete Button (top-right, only when image exists) */}
-        {item.imageUrl && (
+        {item.imageId && (
           <button
             onClick={handleDelete}
             className="absolute top-1 right-1 p-1.5 bg-white/90 text-red-400 hover:text-red-600 hover:bg-white opacity-0 group-hover:opacity-100 transition-all rounded-full shadow-sm border border-[#E5E0D8] hover:border-red-300 z-20"
@@ -161,13 +198,37 @@ export const StickerItemCard: React.FC<StickerItemCardProps> = ({ item, index, i
           </button>
         )}
 
+        {/* Image Tool Buttons (top-left, only when image exists) */}
+        {item.imageId && (onRemoveBackground || onOutline) && (
+          <div className="absolute top-1 left-1 flex flex-col items-start gap-1 opacity-0 group-hover:opacity-100 transition-all z-20">
+            {onRemoveBackground && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onRemoveBackground(item.id); }}
+                className="px-2 py-1 bg-white/90 text-[#7D7489] hover:text-[#2C2C2C] hover:bg-white rounded-full shadow-sm border border-[#E5E0D8] text-[10px] font-fangsong"
+                title="去除背景"
+              >
+                去背
+              </button>
+            )}
+            {onOutline && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onOutline(item.id); }}
+                className="px-2 py-1 bg-white/90 text-[#7D7489] hover:text-[#2C2C2C] hover:bg-white rounded-full shadow-sm border border-[#E5E0D8] text-[10px] font-fangsong"
+                title="描邊與留白"
+              >
+                描邊
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Explicit Upload Button/Overlay */}
         <div
           onClick={triggerUpload}
           className="absolute inset-0 bg-black/5 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center z-10"
         >
           <span className="bg-white/90 text-[#7D7489] text-[10px] px-2 py-1 shadow-sm font-cormorant tracking-widest uppercase rounded-sm border border-[#E5E0D8]">
-            {item.imageUrl ? 'Modifier' : 'Ajouter'}
+            {item.imageId ? 'Modifier' : 'Ajouter'}
           </span>
         </div>
 
@@ -186,7 +247,7 @@ export const StickerItemCard: React.FC<StickerItemCardProps> = ({ item, index, i
           placeholder="名稱"
           onChange={(e) => onUpdate(item.id, { name: e.target.value })}
           rows={2}
-          className="w-full text-center text-sm md:text-base font-fangsong text-[#5D5550] placeholder-[#D8D2CB] focus:outline-none bg-transparent py-2 border-b border-transparent focus:border-[#7D7489] transition-all resize-none overflow-hidden break-words"
+          className={`w-full text-center text-sm md:text-base font-fangsong placeholder-[#D8D2CB] ${item.machineTranslated?.includes('name') ? 'text-[#9F97A8]' : 'text-[#5D5550]'} focus:outline-none bg-transparent py-2 border-b border-transparent focus:border-[#7D7489] transition-all resize-none overflow-hidden break-words`}
           style={{
             minHeight: '2.5rem',
             maxHeight: '5rem'
@@ -198,6 +259,40 @@ export const StickerItemCard: React.FC<StickerItemCardProps> = ({ item, index, i
             target.style.height = Math.min(target.scrollHeight, 80) + 'px';
           }}
         />
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={item.enName || ''}
+            placeholder="English name"
+            onChange={(e) => onUpdate(item.id, { enName: e.target.value })}
+            className={`w-full text-center text-xs font-cormorant italic placeholder-[#E5E0D8] focus:outline-none bg-transparent py-1 border-b border-transparent focus:border-[#7D7489] transition-all ${item.machineTranslated?.includes('enName') ? 'text-[#9F97A8]' : 'text-[#7D7489]'}`}
+          />
+          <MachineTranslatedBadge show={!!item.machineTranslated?.length} className="shrink-0" />
+        </div>
+        {suggestion && (
+          <div className="mt-1 flex items-center justify-center gap-2 text-xs font-fangsong text-[#7D7489]">
+            <span className="truncate" title={suggestion}>→ {suggestion}</span>
+            <button
+              onClick={() => onAcceptSuggestion?.(item.id)}
+              className="shrink-0 px-1 hover:text-[#2C2C2C]"
+              title="採用建議"
+            >
+              ✓
+            </button>
+            <button
+              onClick={() => onRejectSuggestion?.(item.id)}
+              className="shrink-0 px-1 text-[#D8D2CB] hover:text-red-400"
+              title="捨棄建議"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+        {issues && issues.length > 0 && (
+          <ul className="mt-1 space-y-0.5 text-[10px] leading-snug font-fangsong text-red-400">
+            {issues.map(issue => <li key={issue.rule}>{issue.message}</li>)}
+          </ul>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from './Button';
+import { SetImage } from '../types';
+import { useImageUrl } from '../hooks/useImageUrl';
+import { ConflictChoices, SyncConflict, SyncSide } from '../services/syncMerge';
+
+interface SyncConflictDialogProps {
+  conflicts: SyncConflict[];
+  onResolve: (choices: ConflictChoices) => void;
+  onCancel: () => void;
+}
+
+const ConflictImage = ({ imageId }: { imageId: string }) => {
+  const url = useImageUrl(imageId);
+  return url
+    ? <img src={url} className="w-14 h-14 object-contain bg-white border border-[#F3F0EB]" />
+    : <div className="w-14 h-14 bg-[#F9F8F6] border border-[#F3F0EB]"></div>;
+};
+
+const ConflictValue = ({ conflict, side }: { conflict: SyncConflict; side: SyncSide }) => {
+  const value = side === 'local' ? conflict.local : conflict.remote;
+
+  if (conflict.kind === 'set' || conflict.kind === 'item') {
+    return <span>{value === undefined ? '已刪除' : '已修改'}</span>;
+  }
+  if (conflict.kind === 'order') {
+    return <span>{side === 'local' ? '本機的排列' : '雲端的排列'}</span>;
+  }
+  if (conflict.field === 'imageId' && typeof value === 'string') {
+    return <ConflictImage imageId={value} />;
+  }
+  if ((conflict.field === 'mainImage' || conflict.field === 'tabImage') && value) {
+    return <ConflictImage imageId={(value as SetImage).imageId} />;
+  }
+  if (Array.isArray(value)) {
+    return <span>{value.length > 0 ? value.join('、') : '（空白）'}</span>;
+  }
+  if (value === undefined || value === '') {
+    return <span className="text-[#D8D2CB]">（空白）</span>;
+  }
+  return <span className="whitespace-pre-wrap break-words">{String(value)}</span>;
+};
+
+/**
+ * Lets the user pick a side for every change made both locally and in the cloud
+ */
+export const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ conflicts, onResolve, onCancel }) => {
+  const [choices, setChoices] = useState<ConflictChoices>({});
+
+  const groups = useMemo(() => {
+    const bySet = new Map<string, { title: string; conflicts: SyncConflict[] }>();
+    conflicts.forEach(conflict => {
+      const group = bySet.get(conflict.setId) || { title: conflict.setTitle, conflicts: [] };
+      group.conflicts.push(conflict);
+      bySet.set(conflict.setId, group);
+    });
+    return Array.from(bySet.values());
+  }, [conflicts]);
+
+  const chooseAll = (side: SyncSide) => {
+    setChoices(Object.fromEntries(conflicts.map(c => [c.id, side])));
+  };
+
+  const choose = (id: string, side: SyncSide) => {
+    setChoices(prev => ({ ...prev, [id]: side }));
+  };
+
+  const remaining = conflicts.filter(c => !choices[c.id]).length;
+
+  const optionClass = (selected: boolean) =>
+    `flex-1 text-left p-3 border text-xs font-fangsong transition-colors ${selected
+      ? 'border-[#7D7489] bg-[#F3F0F5] text-[#2C2C2C]'
+      : 'border-[#F3F0EB] text-[#9F97A8] hover:border-[#E5E0D8]'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#2C2C2C]/20 flex items-center justify-center p-4">
+      <div className="bg-[#FDFBF7] w-full max-w-2xl max-h-[85vh] flex flex-col border border-[#E5E0D8] shadow-[0_10px_40px_rgba(125,116,137,0.15)]">
+        <div className="p-8 pb-4 border-b border-[#F3F0EB]">
+          <h3 className="text-2xl font-playfair text-[#2C2C2C]">Conflits de synchronisation</h3>
+          <p className="mt-2 text-xs text-[#9F97A8] font-fangsong">
+            以下 {conflicts.length} 項在這台裝置和雲端都被修改過，請選擇要保留的版本。
+          </p>
+          <div className="flex gap-3 mt-4">
+            <Button onClick={() => chooseAll('local')} variant="ghost" size="sm">Tout local</Button>
+            <Button onClick={() => chooseAll('remote')} variant="ghost" size="sm">Tout distant</Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          {groups.map(group => (
+            <div key={group.conflicts[0].setId}>
+              <h4 className="text-lg font-playfair text-[#7D7489] mb-3">{group.title}</h4>
+              <div className="space-y-4">
+                {group.conflicts.map(conflict => (
+                  <div key={conflict.id}>
+                    <div className="text-[10px] uppercase tracking-[0.2em] text-[#9F97A8] font-cormorant mb-2">{conflict.label}</div>
+                    <div className="flex gap-3">
+                      {(['local', 'remote'] as SyncSide[]).map(side => (
+                        <button
+                          key={side}
+                          type="button"
+                          onClick={() => choose(conflict.id, side)}
+                          className={optionClass(choices[conflict.id] === side)}
+                        >
+                          <div className="text-[10px] uppercase tracking-[0.2em] font-cormorant text-[#D8D2CB] mb-1">
+                            {side === 'local' ? 'Cet appareil' : 'Cloud'}
+                          </div>
+                          <ConflictValue conflict={conflict} side={side} />
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end items-center gap-3 p-6 border-t border-[#F3F0EB]">
+          {remaining > 0 && (
+            <span className="mr-auto text-xs text-[#9F97A8] font-fangsong">尚有 {remaining} 項未選擇</span>
+          )}
+          <Button onClick={onCancel} variant="ghost" size="sm">Annuler</Button>
+          <Button onClick={() => onResolve(choices)} variant="primary" size="sm" disabled={remaining > 0}>
+            Appliquer
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
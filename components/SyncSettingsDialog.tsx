@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { SyncBackendId } from '../services/sync/types';
+import { folderBackend, getSyncBackend, gistBackend, webDavBackend } from '../services/sync/settings';
+import { FolderBackend } from '../services/sync/folderBackend';
+import { WebDavSettings } from '../services/sync/webDavBackend';
+import { syncService } from '../services/syncService';
+
+interface SyncSettingsDialogProps {
+  onClose: () => void;
+  /** Called once the chosen backend is configured and selected */
+  onConnected: () => void;
+}
+
+const BACKENDS: { value: SyncBackendId; label: string; hint: string }[] = [
+  { value: 'gist', label: 'GitHub Gist', hint: '私人 Gist，需要有「gist」權限的 Personal Access Token' },
+  { value: 'folder', label: 'Dossier local', hint: '同步到電腦上的資料夾（可放在 Dropbox、Google Drive 或 NAS 內），需 Chrome 或 Edge' },
+  { value: 'webdav', label: 'WebDAV', hint: 'Nextcloud、NAS 等 WebDAV 伺服器，伺服器需允許跨來源 (CORS) 請求' }
+];
+
+const inputClass = "w-full text-sm font-cormorant bg-transparent border-b border-[#E5E0D8] py-2 focus:outline-none focus:border-[#7D7489] placeholder-[#D8D2CB]";
+const labelClass = "block text-xs uppercase tracking-[0.2em] text-[#9F97A8] mb-2 font-cormorant";
+
+export const SyncSettingsDialog: React.FC<SyncSettingsDialogProps> = ({ onClose, onConnected }) => {
+  const [backendId, setBackendId] = useState<SyncBackendId>(syncService.getBackend().id);
+  const [token, setToken] = useState('');
+  const [webDav, setWebDav] = useState<WebDavSettings>(webDavBackend.getSettings());
+  // Testing already stores the settings, so compare against the URL the dialog opened with
+  const [initialWebDavUrl] = useState(webDavBackend.getSettings().url);
+  const [folderName, setFolderName] = useState(folderBackend.describe());
+  const [folderChosen, setFolderChosen] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const selectBackend = (id: SyncBackendId) => {
+    setBackendId(id);
+    setMessage(null);
+  };
+
+  const updateWebDav = (updates: Partial<WebDavSettings>) => {
+    setWebDav(prev => ({ ...prev, ...updates }));
+    setMessage(null);
+  };
+
+  const handleChooseFolder = async () => {
+    try {
+      setFolderName(await folderBackend.chooseFolder());
+      setFolderChosen(true);
+      setMessage(null);
+    } catch (e: any) {
+      // Closing the picker is not an error
+      if (e.name !== 'AbortError') setMessage(`✕ ${e.message}`);
+    }
+  };
+
+  /**
+   * Stores the form values on the backend
+   * @throws Error when required values are missing or the GitHub token is rejected
+   */
+  const applySettings = async () => {
+    switch (backendId) {
+      case 'gist':
+        if (token.trim()) {
+          await gistBackend.login(token.trim());
+        } else if (!gistBackend.isConfigured()) {
+          throw new Error('請輸入 GitHub Token');
+        }
+        break;
+      case 'folder':
+        if (!folderBackend.isConfigured()) {
+          throw new Error('請先選擇資料夾');
+        }
+        break;
+      case 'webdav':
+        if (!webDav.url.trim()) {
+          throw new Error('請輸入 WebDAV 網址');
+        }
+        webDavBackend.configure(webDav);
+        break;
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setMessage(`✕ ${e.message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleTest = () => run(async () => {
+    await applySettings();
+    const files = await getSyncBackend(backendId).list();
+    setMessage(`✓ 連線成功（${files.length} 個檔案）`);
+  });
+
+  const handleSave = () => run(async () => {
+    await applySettings();
+    const targetChanged =
+      (backendId === 'gist' && !!token.trim()) ||
+      (backendId === 'folder' && folderChosen) ||
+      (backendId === 'webdav' && webDavBackend.getSettings().url !== initialWebDavUrl);
+    await syncService.selectBackend(backendId, targetChanged);
+    onConnected();
+    onClose();
+  });
+
+  const activeBackend = BACKENDS.find(b => b.value === backendId);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#2C2C2C]/20 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-[#FDFBF7] w-full max-w-md p-8 border border-[#E5E0D8] shadow-[0_10px_40px_rgba(125,116,137,0.15)] space-y-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-2xl font-playfair text-[#2C2C2C]">Synchronisation</h3>
+
+        <div>
+          <label className={labelClass}>Service</label>
+          <select
+            value={backendId}
+            onChange={(e) => selectBackend(e.target.value as SyncBackendId)}
+            className="w-full text-sm font-fangsong bg-transparent border-b border-[#E5E0D8] py-2 rounded-none focus:outline-none focus:border-[#7D7489] cursor-pointer"
+          >
+            {BACKENDS.map(b => <option key={b.value} value={b.value}>{b.label}</option>)}
+          </select>
+          {activeBackend && <p className="mt-2 text-xs text-[#9F97A8] font-fangsong">{activeBackend.hint}</p>}
+        </div>
+
+        {backendId === 'gist' && (
+          <div>
+            <label className={labelClass}>Jeton GitHub</label>
+            <input
+              type="password"
+              value={token}
+              onChange={(e) => { setToken(e.target.value); setMessage(null); }}
+              className={inputClass}
+              placeholder={gistBackend.isConfigured() ? '已登入，留空則沿用' : 'ghp_...'}
+            />
+            <p className="mt-2 text-[10px] text-[#D8D2CB] font-fangsong">
+              前往 github.com/settings/tokens → Generate new token (classic) → 勾選「gist」
+            </p>
+          </div>
+        )}
+
+        {backendId === 'folder' && (
+          <div>
+            <label className={labelClass}>Dossier</label>
+            {FolderBackend.isSupported() ? (
+              <div className="flex items-center gap-3">
+                <span className="flex-1 text-sm font-fangsong text-[#7D7489] truncate">{folderName || '尚未選擇'}</span>
+                <Button onClick={handleChooseFolder} variant="outline" size="sm">Choisir</Button>
+              </div>
+            ) : (
+              <p className="text-xs text-red-400 font-fangsong">這個瀏覽器不支援資料夾存取，請使用 Chrome 或 Edge。</p>
+            )}
+          </div>
+        )}
+
+        {backendId === 'webdav' && (
+          <>
+            <div>
+              <label className={labelClass}>URL</label>
+              <input
+                type="url"
+                value={webDav.url}
+                onChange={(e) => updateWebDav({ url: e.target.value })}
+                className={inputClass}
+                placeholder="https://cloud.example.com/remote.php/dav/files/moi/latelier/"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Utilisateur</label>
+                <input
+                  type="text"
+                  value={webDav.username}
+                  onChange={(e) => updateWebDav({ username: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Mot de passe</label>
+                <input
+                  type="password"
+                  value={webDav.password}
+                  onChange={(e) => updateWebDav({ password: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </>
+        )}
+
+        <p className="text-[10px] text-[#D8D2CB] font-fangsong">登入資訊只保存在這台裝置的瀏覽器中。切換服務後，下次同步會和新位置重新比對。</p>
+
+        {message && (
+          <div className={`text-xs font-fangsong break-words ${message.startsWith('✓') ? 'text-[#7D7489]' : 'text-red-400'}`}>
+            {message}
+          </div>
+        )}
+
+        <div className="flex justify-end items-center gap-3 pt-4 border-t border-[#F3F0EB]">
+          <Button onClick={handleTest} variant="ghost" size="sm" disabled={isBusy} className="mr-auto">
+            {isBusy ? '...' : 'Tester'}
+          </Button>
+          <Button onClick={onClose} variant="ghost" size="sm">Annuler</Button>
+          <Button onClick={handleSave} variant="primary" size="sm" disabled={isBusy}>Enregistrer</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { SyncStatus } from '../services/syncService';
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus;
+  autoSync: boolean;
+}
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('zh-TW', { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Small dot + label describing the cloud sync state
+ */
+export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ status, autoSync }) => {
+  // Re-render every second while a retry countdown is shown
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!status.retryAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [status.retryAt]);
+
+  let color = 'bg-[#E5E0D8]';
+  let label = autoSync ? '自動同步已開啟' : '尚未同步';
+
+  if (status.syncing) {
+    color = 'bg-[#7D7489] animate-pulse';
+    label = '同步中...';
+  } else if (status.error) {
+    color = 'bg-red-300';
+    const seconds = status.retryAt ? Math.max(0, Math.ceil((status.retryAt.getTime() - now) / 1000)) : null;
+    label = seconds !== null ? `同步失敗，${seconds} 秒後重試` : '同步失敗';
+  } else if (status.pending) {
+    color = 'bg-[#D8D2CB] animate-pulse';
+    label = '等待同步...';
+  } else if (status.lastSync) {
+    color = 'bg-[#7D7489]';
+    label = `已同步 ${formatTime(status.lastSync)}`;
+  }
+
+  return (
+    <div className="flex items-center gap-1.5 text-[10px] text-[#9F97A8] font-fangsong" title={status.error}>
+      <span className={`w-1.5 h-1.5 rounded-full ${color}`}></span>
+      {label}
+    </div>
+  );
+};
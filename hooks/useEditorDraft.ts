@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { SetImage, StickerSet } from '../types';
+import { DraftRecord, deleteDraft, getDraft, saveDraft, setImageRefs } from '../services/storage';
+import { isSameContent } from '../services/syncMerge';
+
+const AUTOSAVE_INTERVAL_MS = 5000;
+
+const imageIds = (set: StickerSet, retained: SetImage[]) =>
+  new Set([...setImageRefs(set), ...retained]
+    .flatMap(image => [image.imageId, image.originalId])
+    .filter((id): id is string => !!id));
+
+/**
+ * Unsaved-changes tracking for the editor
+ *  - isDirty compares the edited set with the last saved one
+ *  - while dirty, the edited set is written to the drafts store every few seconds
+ *    and when the tab is hidden, and closing the tab asks for confirmation
+ *  - a draft left by an earlier session is offered through `recoverable`
+ *  - images that undo/redo can still bring back are written with the draft, so their
+ *    blobs are not released while the editor is open
+ *  - a newly uploaded image is written right away rather than at the next autosave,
+ *    since its blobs are unreferenced until a draft or the saved set points at them
+ * @param retained - Images referenced by the undo/redo history or trimmed items
+ */
+export function useEditorDraft(saved: StickerSet, current: StickerSet, retained: SetImage[] = []) {
+  const isDirty = useMemo(() => !isSameContent(saved, current), [saved, current]);
+  const [recoverable, setRecoverable] = useState<DraftRecord | null>(null);
+  // Autosave waits until the old draft has been looked at, so it is not overwritten unseen
+  const [isChecked, setIsChecked] = useState(false);
+
+  const currentRef = useRef(current);
+  currentRef.current = current;
+  // Only what the current set does not already reference
+  const retainedImages = useMemo(() => {
+    const inSet = new Set(setImageRefs(current).flatMap(image => [image.imageId, image.originalId]));
+    const seen = new Set<string>();
+    return retained.filter(image => {
+      const key = `${image.imageId}|${image.originalId || ''}`;
+      if (seen.has(key) || (inSet.has(image.imageId) && (!image.originalId || inSet.has(image.originalId)))) return false;
+      seen.add(key);
+      return true;
+    });
+  }, [current, retained]);
+  const retainedRef = useRef(retainedImages);
+  retainedRef.current = retainedImages;
+  const dirtyRef = useRef(isDirty);
+  dirtyRef.current = isDirty;
+  const lastWrittenRef = useRef<{ set: StickerSet; retained: SetImage[] } | null>(null);
+  // Blobs referenced by the stored set or the last draft written
+  const coveredRef = useRef<Set<string> | null>(null);
+  if (!coveredRef.current) coveredRef.current = imageIds(saved, []);
+  const stoppedRef = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getDraft(saved.id)
+      .then(draft => {
+        if (cancelled) return;
+        if (draft && !isSameContent(draft.set, saved)) {
+          setRecoverable(draft);
+        } else {
+          setIsChecked(true);
+        }
+      })
+      .catch(err => {
+        console.error('Failed to read draft:', err);
+        if (!cancelled) setIsChecked(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [saved.id]);
+
+  const flush = useCallback(() => {
+    const set = currentRef.current;
+    const retained = retainedRef.current;
+    const last = lastWrittenRef.current;
+    if (stoppedRef.current || (last && set === last.set && retained === last.retained)) return;
+    lastWrittenRef.current = { set, retained };
+    coveredRef.current = imageIds(set, retained);
+    // Back at the saved state, a draft is still needed to hold the images redo can restore
+    (dirtyRef.current || retained.length > 0 ? saveDraft(set, retained) : deleteDraft(set.id))
+      .catch(err => console.error('Draft autosave failed:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!isChecked) return;
+
+    const timer = setInterval(flush, AUTOSAVE_INTERVAL_MS);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [isChecked, flush]);
+
+  useEffect(() => {
+    if (!isChecked) return;
+    const covered = coveredRef.current!;
+    if ([...imageIds(current, retainedImages)].some(id => !covered.has(id))) flush();
+  }, [isChecked, current, retainedImages, flush]);
+
+  useEffect(() => {
+    if (!isDirty) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      flush();
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty, flush]);
+
+  /**
+   * Hands the draft to the caller (to load into the editor) and resumes autosaving
+   */
+  const recover = (): StickerSet | null => {
+    const draft = recoverable;
+    setRecoverable(null);
+    setIsChecked(true);
+    return draft?.set ?? null;
+  };
+
+  const dismiss = async () => {
+    setRecoverable(null);
+    setIsChecked(true);
+    await deleteDraft(saved.id);
+  };
+
+  /**
+   * Stops autosaving and drops the draft, once the set is saved or the edits are discarded
+   * @param keepUnreviewed - Keep a draft from an earlier session that was neither recovered nor dismissed
+   */
+  const clear = async (keepUnreviewed = false) => {
+    stoppedRef.current = true;
+    if (!(keepUnreviewed && recoverable)) await deleteDraft(saved.id);
+  };
+
+  return { isDirty, recoverable, recover, dismiss, clear };
+}
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import {
+  peekImageObjectUrl,
+  peekOriginalObjectUrl,
+  releaseImageObjectUrl,
+  releaseOriginalObjectUrl,
+  retainImageObjectUrl,
+  retainOriginalObjectUrl
+} from '../services/imageUrls';
+
+/**
+ * Lazily resolves a preview image id to a displayable object URL
+ * The URL is held while the component shows it and revoked some time after the last user unmounts.
+ * @param source - 'original' to resolve an id from the original_images store instead
+ */
+export function useImageUrl(imageId?: string, source: 'image' | 'original' = 'image'): string | undefined {
+  const peek = source === 'original' ? peekOriginalObjectUrl : peekImageObjectUrl;
+  const [url, setUrl] = useState<string | undefined>(() => imageId ? peek(imageId) : undefined);
+
+  useEffect(() => {
+    if (!imageId) {
+      setUrl(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    setUrl(peek(imageId));
+    (source === 'original' ? retainOriginalObjectUrl : retainImageObjectUrl)(imageId)
+      .then(result => { if (!cancelled) setUrl(result); })
+      .catch(err => console.error('Failed to load image:', err));
+
+    return () => {
+      cancelled = true;
+      (source === 'original' ? releaseOriginalObjectUrl : releaseImageObjectUrl)(imageId);
+    };
+  }, [imageId, source]);
+
+  return url;
+}
@@ -0,0 +1,16 @@
+import { KeyboardSensor, MouseSensor, TouchSensor, useSensor, useSensors } from '@dnd-kit/core';
+import { sortableKeyboardCoordinates } from '@dnd-kit/sortable';
+
+/**
+ * Sensors shared by the sortable grids
+ *  - mouse: starts after a few pixels, so clicks on the handle still work
+ *  - touch: long press, so the page can still be scrolled
+ *  - keyboard: Space/Enter on the handle, arrows to move, Space/Enter to drop, Escape to cancel
+ */
+export function useSortableSensors() {
+  return useSensors(
+    useSensor(MouseSensor, { activationConstraint: { distance: 6 } }),
+    useSensor(TouchSensor, { activationConstraint: { delay: 250, tolerance: 8 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+}
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { syncService, SyncStatus } from '../services/syncService';
+
+/**
+ * Current cloud sync status, re-rendering on every change
+ */
+export function useSyncStatus(): SyncStatus {
+  return useSyncExternalStore(syncService.subscribe, syncService.getStatus);
+}
@@ -0,0 +1,93 @@
+import { useCallback, useReducer } from 'react';
+
+const HISTORY_LIMIT = 100;
+// Updates sharing a merge key closer together than this become one undo step (e.g. typing)
+const MERGE_WINDOW_MS = 1000;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastMergeKey?: string;
+  lastUpdate: number;
+}
+
+type HistoryAction<T> =
+  | { type: 'set'; update: (prev: T) => T; mergeKey?: string; now: number }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+function historyReducer<T>(history: History<T>, action: HistoryAction<T>): History<T> {
+  switch (action.type) {
+    case 'set': {
+      const next = action.update(history.present);
+      if (next === history.present) return history;
+
+      const merge = action.mergeKey !== undefined
+        && action.mergeKey === history.lastMergeKey
+        && action.now - history.lastUpdate < MERGE_WINDOW_MS;
+
+      return {
+        past: merge ? history.past : [...history.past, history.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        lastMergeKey: action.mergeKey,
+        lastUpdate: action.now
+      };
+    }
+    case 'undo': {
+      if (history.past.length === 0) return history;
+      return {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future],
+        lastUpdate: 0
+      };
+    }
+    case 'redo': {
+      if (history.future.length === 0) return history;
+      return {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1),
+        lastUpdate: 0
+      };
+    }
+  }
+}
+
+/**
+ * State with an undo/redo history
+ * `set` takes an updater like a state setter; pass a merge key to fold rapid
+ * updates of the same field into a single undo step.
+ */
+export function useUndoableState<T>(initial: T | (() => T)) {
+  const [history, dispatch] = useReducer(
+    historyReducer as (history: History<T>, action: HistoryAction<T>) => History<T>,
+    undefined,
+    () => ({
+      past: [],
+      present: typeof initial === 'function' ? (initial as () => T)() : initial,
+      future: [],
+      lastUpdate: 0
+    })
+  );
+
+  const set = useCallback((update: (prev: T) => T, mergeKey?: string) => {
+    dispatch({ type: 'set', update, mergeKey, now: Date.now() });
+  }, []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    // Every state undo/redo can bring back, oldest first
+    past: history.past,
+    future: history.future
+  };
+}
@@ -0,0 +1,87 @@
+
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import {
+  AiProvider,
+  AiServiceError,
+  AiSettings,
+  DescriptionDraft,
+  DescriptionRequest,
+  NameSuggestionRequest,
+  TranslationRequest
+} from './types';
+import {
+  namesPrompt,
+  descriptionPrompt,
+  translationPrompt,
+  parseJson,
+  toNames,
+  toDescriptionDraft,
+  toTranslations
+} from './prompts';
+
+const DEFAULT_MODEL = 'gemini-3-flash-preview';
+
+const STRING_ARRAY_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.STRING
+  }
+};
+
+const DESCRIPTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    zhDesc: { type: Type.STRING },
+    enDesc: { type: Type.STRING }
+  },
+  required: ['zhDesc', 'enDesc']
+};
+
+/**
+ * Google Gemini provider
+ * The client is created from the runtime settings, not from a build-time key
+ */
+export class GeminiProvider implements AiProvider {
+  readonly id = 'gemini' as const;
+  private ai: GoogleGenAI;
+  private model: string;
+
+  constructor(settings: AiSettings) {
+    if (!settings.apiKey) {
+      throw new AiServiceError('config', '請先在 AI 設定中填入 Gemini API Key');
+    }
+    this.ai = new GoogleGenAI({ apiKey: settings.apiKey });
+    this.model = settings.model || DEFAULT_MODEL;
+  }
+
+  private async generate(contents: string, responseSchema: Schema): Promise<unknown> {
+    let text: string | undefined;
+    try {
+      const response = await this.ai.models.generateContent({
+        model: this.model,
+        contents,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema
+        }
+      });
+      text = response.text;
+    } catch (e: any) {
+      console.error("AI request failed", e);
+      throw new AiServiceError('request', `AI 請求失敗：${e.message || e}`);
+    }
+    return parseJson(text);
+  }
+
+  async suggestNames(request: NameSuggestionRequest): Promise<string[]> {
+    return toNames(await this.generate(namesPrompt(request), STRING_ARRAY_SCHEMA), request.count);
+  }
+
+  async writeDescriptions(request: DescriptionRequest): Promise<DescriptionDraft> {
+    return toDescriptionDraft(await this.generate(descriptionPrompt(request), DESCRIPTION_SCHEMA), request.maxLength);
+  }
+
+  async translate(request: TranslationRequest): Promise<string[]> {
+    return toTranslations(await this.generate(translationPrompt(request), STRING_ARRAY_SCHEMA), request.texts.length);
+  }
+}
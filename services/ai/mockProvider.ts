@@ -0,0 +1,48 @@
+import {
+  AiProvider,
+  DescriptionDraft,
+  DescriptionRequest,
+  NameSuggestionRequest,
+  TranslationRequest
+} from './types';
+
+const SAMPLE_NAMES = [
+  '你好', '謝謝', '加油', '辛苦了', '早安', '晚安', '好的', '沒問題',
+  '抱歉', '恭喜', '生日快樂', '想你', '哈哈', '嗚嗚', '讚', '拜託',
+  '收到', '等等我', '出發', '放假', '好餓', '好累', '愛你', '再見'
+];
+
+/**
+ * Deterministic offline provider
+ * Same input, same output: handy for tests and for working without a network
+ */
+export class MockProvider implements AiProvider {
+  readonly id = 'mock' as const;
+
+  async suggestNames(request: NameSuggestionRequest): Promise<string[]> {
+    const taken = new Set(request.existingNames || []);
+    const available = SAMPLE_NAMES.filter(name => !taken.has(name));
+
+    return Array.from({ length: request.count }, (_, i) => {
+      const base = available[i % available.length] || `貼圖 ${i + 1}`;
+      const round = Math.floor(i / available.length);
+      return round > 0 ? `${base} ${round + 1}` : base;
+    });
+  }
+
+  async writeDescriptions(request: DescriptionRequest): Promise<DescriptionDraft> {
+    const names = request.itemNames.filter(Boolean).slice(0, 3);
+    const zhDesc = `「${request.title}」${request.series ? `是${request.series}系列的作品，` : ''}收錄${names.join('、')}等日常用語。`;
+    const enDesc = `${request.enTitle || request.title}: ${request.itemNames.length} ${request.type === 'Emoji' ? 'emoji' : 'stickers'} for everyday chats.`;
+
+    return {
+      zhDesc: Array.from(zhDesc).slice(0, request.maxLength.zh).join(''),
+      enDesc: enDesc.slice(0, request.maxLength.en)
+    };
+  }
+
+  async translate(request: TranslationRequest): Promise<string[]> {
+    const tag = request.to === 'en' ? 'EN' : '中';
+    return request.texts.map(text => (text ? `[${tag}] ${text}` : ''));
+  }
+}
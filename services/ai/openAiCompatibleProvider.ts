@@ -0,0 +1,91 @@
+import {
+  AiProvider,
+  AiServiceError,
+  AiSettings,
+  DescriptionDraft,
+  DescriptionRequest,
+  NameSuggestionRequest,
+  TranslationRequest
+} from './types';
+import {
+  namesPrompt,
+  descriptionPrompt,
+  translationPrompt,
+  parseJson,
+  toNames,
+  toDescriptionDraft,
+  toTranslations
+} from './prompts';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+/**
+ * Any server speaking the OpenAI chat completions API
+ * (OpenAI itself, or a local one such as Ollama, LM Studio or llama.cpp)
+ */
+export class OpenAiCompatibleProvider implements AiProvider {
+  readonly id = 'openai' as const;
+  private baseUrl: string;
+  private apiKey: string;
+  private model: string;
+
+  constructor(settings: AiSettings) {
+    this.baseUrl = (settings.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.apiKey = settings.apiKey;
+    this.model = settings.model || DEFAULT_MODEL;
+  }
+
+  private async complete(prompt: string): Promise<unknown> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually don't need a key
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.model,
+          temperature: 0.7,
+          messages: [
+            { role: 'system', content: 'You are a helpful assistant. Answer with JSON only, without any commentary.' },
+            { role: 'user', content: prompt }
+          ]
+        })
+      });
+    } catch (e: any) {
+      console.error("AI request failed", e);
+      throw new AiServiceError('request', `無法連線到 ${this.baseUrl}：${e.message || e}`);
+    }
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new AiServiceError('config', 'API Key 無效或沒有權限');
+      }
+      throw new AiServiceError('request', `AI 請求失敗 (HTTP ${response.status})`);
+    }
+
+    const body = await response.json();
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new AiServiceError('parse', 'AI 回傳的內容是空的');
+    }
+    return parseJson(content);
+  }
+
+  async suggestNames(request: NameSuggestionRequest): Promise<string[]> {
+    return toNames(await this.complete(namesPrompt(request)), request.count);
+  }
+
+  async writeDescriptions(request: DescriptionRequest): Promise<DescriptionDraft> {
+    return toDescriptionDraft(await this.complete(descriptionPrompt(request)), request.maxLength);
+  }
+
+  async translate(request: TranslationRequest): Promise<string[]> {
+    return toTranslations(await this.complete(translationPrompt(request)), request.texts.length);
+  }
+}
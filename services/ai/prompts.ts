@@ -0,0 +1,98 @@
+import {
+  AiServiceError,
+  DescriptionDraft,
+  DescriptionRequest,
+  Language,
+  NameSuggestionRequest,
+  TranslationRequest
+} from './types';
+
+const LANGUAGE_LABELS: Record<Language, string> = {
+  'zh-TW': '繁體中文',
+  en: 'English'
+};
+
+// --- Prompts (shared by every remote provider) ---
+
+export function namesPrompt(request: NameSuggestionRequest): string {
+  const context = [
+    `標題：${request.title || '（未命名）'}`,
+    request.series ? `系列：${request.series}` : '',
+    request.description ? `介紹：${request.description}` : '',
+    request.existingNames?.length ? `已使用的名稱（請勿重複）：${request.existingNames.join('、')}` : ''
+  ].filter(Boolean).join('\n');
+
+  return `請為一套含有 ${request.count} 張貼圖的系列建議名稱。
+    ${context}
+    格式請回傳 JSON 陣列，包含 ${request.count} 個簡短、有趣且符合繁體中文語境的貼圖標籤（例如：你好、加油、辛苦了、早安...等）。
+    風格要優雅且具有設計感。`;
+}
+
+export function descriptionPrompt(request: DescriptionRequest): string {
+  const kind = request.type === 'Emoji' ? '表情貼' : '貼圖';
+  return `請為一套 LINE ${kind}撰寫商店介紹文字。
+    標題：${request.title || '（未命名）'}
+    英文標題：${request.enTitle || '（無）'}
+    系列：${request.series || '（無）'}
+    內容：${request.itemNames.filter(Boolean).join('、')}
+    格式請回傳 JSON 物件 {"zhDesc": "...", "enDesc": "..."}。
+    zhDesc 為繁體中文，不可超過 ${request.maxLength.zh} 個字；enDesc 為英文，不可超過 ${request.maxLength.en} 個字元。
+    語氣要溫暖、優雅，描述這套${kind}的風格與使用情境。`;
+}
+
+export function translationPrompt(request: TranslationRequest): string {
+  return `Translate each string of the JSON array below from ${LANGUAGE_LABELS[request.from]} to ${LANGUAGE_LABELS[request.to]}.
+    These are names and descriptions of chat stickers${request.context ? ` (set: ${request.context})` : ''}; keep them short and natural.
+    Return a JSON array with exactly ${request.texts.length} strings, in the same order.
+    ${JSON.stringify(request.texts)}`;
+}
+
+// --- Response parsing ---
+
+/**
+ * Parses a JSON answer, tolerating the ```json fences chat models like to add
+ */
+export function parseJson(text: string | undefined): unknown {
+  const cleaned = (text || '').trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(cleaned);
+  } catch (e) {
+    console.error("Failed to parse AI response", e, text);
+    throw new AiServiceError('parse', 'AI 回傳的內容無法解析');
+  }
+}
+
+export function toStringArray(data: unknown): string[] {
+  if (!Array.isArray(data)) {
+    throw new AiServiceError('parse', 'AI 回傳的格式不正確（應該是陣列）');
+  }
+  return data.map(value => (typeof value === 'string' ? value.trim() : ''));
+}
+
+export function toNames(data: unknown, count: number): string[] {
+  const names = toStringArray(data).filter(Boolean);
+  if (names.length === 0) {
+    throw new AiServiceError('parse', 'AI 沒有回傳任何名稱');
+  }
+  return names.slice(0, count);
+}
+
+export function toDescriptionDraft(data: unknown, maxLength: DescriptionRequest['maxLength']): DescriptionDraft {
+  const draft = data as Partial<DescriptionDraft> | null;
+  if (!draft || typeof draft.zhDesc !== 'string' || typeof draft.enDesc !== 'string') {
+    throw new AiServiceError('parse', 'AI 回傳的介紹格式不正確');
+  }
+  // Models don't always respect the limit; the platform would reject longer text
+  return {
+    zhDesc: Array.from(draft.zhDesc.trim()).slice(0, maxLength.zh).join(''),
+    enDesc: draft.enDesc.trim().slice(0, maxLength.en)
+  };
+}
+
+export function toTranslations(data: unknown, expected: number): string[] {
+  const translations = toStringArray(data);
+  if (translations.length !== expected) {
+    throw new AiServiceError('parse', `AI 回傳 ${translations.length} 筆翻譯，預期 ${expected} 筆`);
+  }
+  return translations;
+}
@@ -0,0 +1,40 @@
+import { AiProvider, AiSettings } from './types';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { MockProvider } from './mockProvider';
+
+const AI_SETTINGS_KEY = 'latelier_ai_settings';
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  apiKey: '',
+  baseUrl: '',
+  model: ''
+};
+
+export function loadAiSettings(): AiSettings {
+  try {
+    const stored = localStorage.getItem(AI_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_AI_SETTINGS, ...JSON.parse(stored) } : DEFAULT_AI_SETTINGS;
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+}
+
+export function saveAiSettings(settings: AiSettings): void {
+  localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Creates the provider selected in the settings
+ * @throws AiServiceError('config') when the provider is missing required settings
+ */
+export function createAiProvider(settings: AiSettings = loadAiSettings()): AiProvider {
+  switch (settings.provider) {
+    case 'openai': return new OpenAiCompatibleProvider(settings);
+    case 'mock': return new MockProvider();
+    case 'gemini':
+    default:
+      return new GeminiProvider(settings);
+  }
+}
@@ -0,0 +1,71 @@
+import { StickerSet } from '../../types';
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+/**
+ * Runtime AI configuration, edited from the settings dialog
+ */
+export interface AiSettings {
+  provider: AiProviderId;
+  apiKey: string;
+  /** Base URL of an OpenAI-compatible server (e.g. http://localhost:11434/v1) */
+  baseUrl: string;
+  /** Model name; empty means the provider default */
+  model: string;
+}
+
+export type Language = 'zh-TW' | 'en';
+
+export interface NameSuggestionRequest {
+  title: string;
+  series: string;
+  description: string;
+  count: number;
+  /** Names already in use, so the model doesn't propose them again */
+  existingNames?: string[];
+}
+
+export interface DescriptionRequest {
+  title: string;
+  enTitle: string;
+  series: string;
+  type: StickerSet['type'];
+  itemNames: string[];
+  /** Character limits of the target platform */
+  maxLength: { zh: number; en: number };
+}
+
+export interface DescriptionDraft {
+  zhDesc: string;
+  enDesc: string;
+}
+
+export interface TranslationRequest {
+  texts: string[];
+  from: Language;
+  to: Language;
+  /** Extra hint for the translator, e.g. the set title */
+  context?: string;
+}
+
+export interface AiProvider {
+  id: AiProviderId;
+  suggestNames(request: NameSuggestionRequest): Promise<string[]>;
+  writeDescriptions(request: DescriptionRequest): Promise<DescriptionDraft>;
+  /** Returns one translation per input text, in the same order */
+  translate(request: TranslationRequest): Promise<string[]>;
+}
+
+/**
+ * Error raised by the AI providers
+ * `kind` tells the UI whether the provider is misconfigured, the request failed or its answer was unusable
+ */
+export class AiServiceError extends Error {
+  kind: 'config' | 'request' | 'parse';
+
+  constructor(kind: 'config' | 'request' | 'parse', message: string) {
+    super(message);
+    this.name = 'AiServiceError';
+    this.kind = kind;
+  }
+}
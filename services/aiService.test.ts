@@ -0,0 +1,95 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { StickerSet } from '../types';
+import { draftDescriptions, suggestStickerNames, translateMissing } from './aiService';
+import { DEFAULT_AI_SETTINGS, saveAiSettings } from './ai/settings';
+
+const stickerSet = (fields: Partial<StickerSet> = {}): StickerSet => ({
+  id: 'set-1',
+  order: 0,
+  title: '貓咪日常',
+  enTitle: '',
+  series: '',
+  zhDesc: '',
+  enDesc: '',
+  storeUrl: '',
+  status: 'IN_PROGRESS',
+  type: 'Sticker',
+  itemCount: 3,
+  createdAt: 0,
+  items: [
+    { id: 'item-1', originalOrder: 1, name: '早安' },
+    { id: 'item-2', originalOrder: 2, name: 'Image 2', enName: 'Good night' },
+    { id: 'item-3', originalOrder: 3, name: 'Image 3' }
+  ],
+  ...fields
+});
+
+beforeEach(() => {
+  localStorage.clear();
+  saveAiSettings({ ...DEFAULT_AI_SETTINGS, provider: 'mock' });
+});
+
+describe('suggestStickerNames', () => {
+  it('returns the requested number of names', async () => {
+    const names = await suggestStickerNames({ title: '貓咪日常', series: '', description: '', count: 40 });
+
+    expect(names).toHaveLength(40);
+    expect(new Set(names).size).toBe(40);
+  });
+
+  it('leaves out names already in use', async () => {
+    const existingNames = ['你好', '謝謝', '加油'];
+    const names = await suggestStickerNames({ title: '貓咪日常', series: '', description: '', count: 8, existingNames });
+
+    expect(names).toHaveLength(8);
+    expect(names.filter(name => existingNames.includes(name))).toEqual([]);
+  });
+});
+
+describe('draftDescriptions', () => {
+  it('keeps both descriptions within the platform limits', async () => {
+    const draft = await draftDescriptions({
+      title: '貓咪日常',
+      enTitle: 'Cat Days',
+      series: '午後',
+      type: 'Sticker',
+      itemNames: ['早安', '晚安', '謝謝', '加油'],
+      maxLength: { zh: 10, en: 12 }
+    });
+
+    expect(Array.from(draft.zhDesc)).toHaveLength(10);
+    expect(draft.enDesc).toHaveLength(12);
+  });
+});
+
+describe('translateMissing', () => {
+  it('fills the missing side of each field and flags it as machine-translated', async () => {
+    const { set, count } = await translateMissing(stickerSet({ enDesc: 'A cat at home' }));
+
+    expect(count).toBe(4);
+    expect(set.enTitle).toBe('[EN] 貓咪日常');
+    expect(set.zhDesc).toBe('[中] A cat at home');
+    expect(set.machineTranslated).toEqual(['enTitle', 'zhDesc']);
+
+    expect(set.items[0]).toMatchObject({ name: '早安', enName: '[EN] 早安', machineTranslated: ['enName'] });
+    expect(set.items[1]).toMatchObject({ name: '[中] Good night', enName: 'Good night', machineTranslated: ['name'] });
+  });
+
+  it('leaves fields without text on either side alone', async () => {
+    const { set } = await translateMissing(stickerSet());
+
+    // Placeholder names count as empty
+    expect(set.items[2]).toEqual({ id: 'item-3', originalOrder: 3, name: 'Image 3' });
+    expect(set.enDesc).toBe('');
+  });
+
+  it('returns the set untouched when nothing is missing', async () => {
+    const complete = stickerSet({ enTitle: 'Cat Days', items: [{ id: 'item-1', originalOrder: 1, name: '早安', enName: 'Morning' }] });
+
+    const result = await translateMissing(complete);
+
+    expect(result.count).toBe(0);
+    expect(result.set).toBe(complete);
+  });
+});
@@ -0,0 +1,96 @@
+import { StickerSet } from '../types';
+import { createAiProvider } from './ai/settings';
+import { DescriptionDraft, DescriptionRequest, NameSuggestionRequest } from './ai/types';
+import { addMachineFlag } from '../utils/machineTranslation';
+import { isDefaultItemName } from '../utils/itemNames';
+
+export { AiServiceError } from './ai/types';
+export type { DescriptionDraft, DescriptionRequest, NameSuggestionRequest } from './ai/types';
+
+/**
+ * AI helpers used by the editor
+ * Each call resolves the provider from the current settings, so changes apply without a reload
+ */
+export async function suggestStickerNames(request: NameSuggestionRequest): Promise<string[]> {
+  return createAiProvider().suggestNames(request);
+}
+
+/**
+ * Drafts the Chinese and English store descriptions of a set
+ */
+export async function draftDescriptions(request: DescriptionRequest): Promise<DescriptionDraft> {
+  return createAiProvider().writeDescriptions(request);
+}
+
+type TranslationTarget =
+  | { kind: 'set'; zh: 'title' | 'zhDesc'; en: 'enTitle' | 'enDesc' }
+  | { kind: 'item'; itemId: string };
+
+interface PendingTranslation {
+  target: TranslationTarget;
+  text: string;
+}
+
+/**
+ * Fills every bilingual field that only has one side (titles, descriptions, item names)
+ * Translated fields are flagged as machine-generated until edited by hand
+ * @returns The updated set and how many fields were filled
+ */
+export async function translateMissing(set: StickerSet): Promise<{ set: StickerSet; count: number }> {
+  const toEnglish: PendingTranslation[] = [];
+  const toChinese: PendingTranslation[] = [];
+
+  const collect = (target: TranslationTarget, zh: string | undefined, en: string | undefined) => {
+    const hasZh = !!zh?.trim();
+    const hasEn = !!en?.trim();
+    if (hasZh && !hasEn) toEnglish.push({ target, text: zh!.trim() });
+    if (hasEn && !hasZh) toChinese.push({ target, text: en!.trim() });
+  };
+
+  collect({ kind: 'set', zh: 'title', en: 'enTitle' }, set.title, set.enTitle);
+  collect({ kind: 'set', zh: 'zhDesc', en: 'enDesc' }, set.zhDesc, set.enDesc);
+  set.items.forEach(item => {
+    collect({ kind: 'item', itemId: item.id }, isDefaultItemName(item.name) ? '' : item.name, item.enName);
+  });
+
+  if (toEnglish.length === 0 && toChinese.length === 0) {
+    return { set, count: 0 };
+  }
+
+  const provider = createAiProvider();
+  const context = set.title || set.enTitle;
+  const [english, chinese] = await Promise.all([
+    toEnglish.length > 0
+      ? provider.translate({ texts: toEnglish.map(p => p.text), from: 'zh-TW', to: 'en', context })
+      : Promise.resolve([]),
+    toChinese.length > 0
+      ? provider.translate({ texts: toChinese.map(p => p.text), from: 'en', to: 'zh-TW', context })
+      : Promise.resolve([])
+  ]);
+
+  let result: StickerSet = { ...set, items: [...set.items] };
+  let count = 0;
+
+  const apply = (pending: PendingTranslation[], translations: string[], toEn: boolean) => {
+    pending.forEach(({ target }, i) => {
+      const text = translations[i]?.trim();
+      if (!text) return;
+      count++;
+
+      if (target.kind === 'set') {
+        const field = toEn ? target.en : target.zh;
+        result = { ...result, [field]: text, machineTranslated: addMachineFlag(result.machineTranslated, field) };
+      } else {
+        const field = toEn ? 'enName' : 'name';
+        result.items = result.items.map(item => item.id === target.itemId
+          ? { ...item, [field]: text, machineTranslated: addMachineFlag(item.machineTranslated, field) }
+          : item);
+      }
+    });
+  };
+
+  apply(toEnglish, english, true);
+  apply(toChinese, chinese, false);
+
+  return { set: result, count };
+}
@@ -0,0 +1,96 @@
+import { StickerSet } from '../types';
+import { extractInlineImages, getImages, getOriginalImages, saveImages, saveOriginalImages, setImageRefs } from './storage';
+import { blobToDataUrl, dataUrlToBlob } from '../utils/dataUrl';
+
+export const BACKUP_VERSION = 3;
+
+/**
+ * Serialized backup shared by JSON export/import and cloud sync.
+ * Version 1 backups were a bare StickerSet[] with inline imageUrl previews,
+ * version 2 added originals, version 3 moved previews into `images`.
+ */
+export interface BackupFile {
+  version: number;
+  sets: StickerSet[];
+  images: Record<string, string>; // imageId -> base64 data URL
+  originals: Record<string, string>; // originalId -> base64 data URL
+}
+
+const encodeRecords = async (records: { id: string; blob: Blob }[]): Promise<Record<string, string>> => {
+  const encoded: Record<string, string> = {};
+  for (const record of records) {
+    encoded[record.id] = await blobToDataUrl(record.blob);
+  }
+  return encoded;
+};
+
+const decodeRecords = (encoded: Record<string, string>) =>
+  Object.entries(encoded).map(([id, dataUrl]) => ({ id, blob: dataUrlToBlob(dataUrl) }));
+
+/**
+ * Builds a backup of the given sets, including every image they reference
+ */
+export async function createBackup(sets: StickerSet[]): Promise<BackupFile> {
+  const imageIds = new Set<string>();
+  const originalIds = new Set<string>();
+  sets.forEach(set => {
+    setImageRefs(set).forEach(image => {
+      if (image.imageId) imageIds.add(image.imageId);
+      if (image.originalId) originalIds.add(image.originalId);
+    });
+  });
+
+  const [imageRecords, originalRecords] = await Promise.all([
+    getImages(Array.from(imageIds)),
+    getOriginalImages(Array.from(originalIds))
+  ]);
+
+  return {
+    version: BACKUP_VERSION,
+    sets,
+    images: await encodeRecords(imageRecords),
+    originals: await encodeRecords(originalRecords)
+  };
+}
+
+/**
+ * Validates parsed JSON and normalizes it to the current backup format
+ * @throws Error if the data is neither a backup object nor a legacy set array
+ */
+export function parseBackup(data: unknown): BackupFile {
+  if (Array.isArray(data)) {
+    return { version: 1, sets: data as StickerSet[], images: {}, originals: {} };
+  }
+
+  const candidate = data as Partial<BackupFile> | null;
+  if (candidate && typeof candidate === 'object' && Array.isArray(candidate.sets)) {
+    return {
+      version: candidate.version ?? BACKUP_VERSION,
+      sets: candidate.sets,
+      images: candidate.images ?? {},
+      originals: candidate.originals ?? {}
+    };
+  }
+
+  throw new Error('備份資料格式不正確');
+}
+
+/**
+ * Writes the images of a backup into IndexedDB and returns its sets
+ * with any legacy inline previews replaced by image references.
+ * Sets are saved separately by the caller.
+ */
+export async function restoreBackupImages(backup: BackupFile): Promise<StickerSet[]> {
+  const { sets, images: inlineImages } = await extractInlineImages(backup.sets);
+  const images = [...decodeRecords(backup.images), ...inlineImages];
+  const originals = decodeRecords(backup.originals);
+
+  if (images.length > 0) {
+    await saveImages(images);
+  }
+  if (originals.length > 0) {
+    await saveOriginalImages(originals);
+  }
+
+  return sets;
+}
@@ -0,0 +1,229 @@
+import { SetImage, StickerItem, StickerSet } from '../types';
+import { COMPRESSION_WORKER_COUNT, compressImage } from '../utils/imageCompression';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { getAllStickerSets, getSetting, getSourceImage, getStickerSet, putSetting, saveImage, saveStickerSet } from './storage';
+import { resolveCompressionProfile } from './compressionProfiles';
+import { touchStickerSet } from './syncMerge';
+import type { SetImageField } from './linePackage';
+
+const JOB_SETTING = 'compressionJob';
+
+// A little more than the worker count, so reading the next source overlaps with compression
+const CONCURRENCY = COMPRESSION_WORKER_COUNT + 1;
+
+export interface CompressionFailure {
+  setId: string;
+  setTitle: string;
+  itemId: string; // The field name for a set image
+  itemIndex: number;
+  itemName?: string;
+  /** Set when the failed image is the set's main or tab image rather than an item */
+  setImage?: SetImageField;
+  message: string;
+}
+
+/**
+ * Progress of a "Compress All" run, stored after every set so an interrupted run can resume
+ */
+export interface CompressionJobState {
+  startedAt: number;
+  /** Sets not finished yet, in dashboard order */
+  pendingSetIds: string[];
+  /** Items (by id) and set images (by field) already handled in sets that were interrupted halfway */
+  settledItemIds: Record<string, string[]>;
+  failures: CompressionFailure[];
+}
+
+export interface CompressionJobResult {
+  cancelled: boolean;
+  /** Images compressed during this run */
+  compressed: number;
+  /** Failures of this run and of the runs it resumed */
+  failures: CompressionFailure[];
+}
+
+interface CompressionTask {
+  set: StickerSet;
+  image: StickerItem | SetImage;
+  /** Item id, or the field of a set image */
+  key: string;
+  index: number;
+  name?: string;
+  setImage?: SetImageField;
+}
+
+class CompressionCancelledError extends Error {}
+
+const SET_IMAGE_FIELDS: SetImageField[] = ['mainImage', 'tabImage'];
+
+const hasImages = (set: StickerSet) => set.items.some(item => item.imageId) || SET_IMAGE_FIELDS.some(field => set[field]);
+
+/**
+ * Every image of a set: its items in order, then the main and tab images
+ */
+const imageTasks = (set: StickerSet): CompressionTask[] => [
+  ...set.items
+    .map((item, index) => ({ set, image: item, key: item.id, index, name: item.name }))
+    .filter(({ image }) => image.imageId),
+  ...SET_IMAGE_FIELDS
+    .filter(field => set[field])
+    .map(field => ({ set, image: set[field]!, key: field, index: -1, setImage: field }))
+];
+
+/**
+ * A new job covering every set with images, or null when there is nothing to compress
+ */
+export function createCompressionJob(sets: StickerSet[]): CompressionJobState | null {
+  const pendingSetIds = sets.filter(hasImages).map(set => set.id);
+  if (pendingSetIds.length === 0) return null;
+  return { startedAt: Date.now(), pendingSetIds, settledItemIds: {}, failures: [] };
+}
+
+/**
+ * The run left unfinished by a cancel, a reload or a crash, if any
+ */
+export const loadCompressionJob = (): Promise<CompressionJobState | undefined> =>
+  getSetting<CompressionJobState>(JOB_SETTING);
+
+export const discardCompressionJob = (): Promise<void> => putSetting(JOB_SETTING, undefined);
+
+/**
+ * Regenerates the previews of the job's sets with their compression profile
+ * Images go through the worker pool a few at a time; each set is saved as soon as
+ * all its items are done, together with the job state, so at most one set of work
+ * is lost when the page closes. Cancelling stops queueing new images, saves what is
+ * done and keeps the job for a later resume.
+ * @param onSetSaved - Called with every set written, to refresh the dashboard
+ */
+export async function runCompressionJob(
+  state: CompressionJobState,
+  {
+    signal,
+    onProgress,
+    onSetSaved
+  }: {
+    signal?: AbortSignal;
+    onProgress?: (done: number, total: number) => void;
+    onSetSaved?: (set: StickerSet) => void;
+  } = {}
+): Promise<CompressionJobResult> {
+  await putSetting(JOB_SETTING, state);
+
+  // Sets deleted since the job started are dropped
+  const setsById = new Map((await getAllStickerSets()).map(set => [set.id, set]));
+  const sets = state.pendingSetIds.map(id => setsById.get(id)).filter((set): set is StickerSet => !!set);
+  state.pendingSetIds = sets.map(set => set.id);
+
+  const tasks: CompressionTask[] = sets.flatMap(set => {
+    const settled = new Set(state.settledItemIds[set.id] || []);
+    return imageTasks(set).filter(({ key }) => !settled.has(key));
+  });
+
+  const remaining = new Map<string, number>();
+  tasks.forEach(({ set }) => remaining.set(set.id, (remaining.get(set.id) || 0) + 1));
+  // New preview id by previous preview id, per set
+  const replacements = new Map<string, Map<string, string>>();
+  // Items handled and failures, per set: they only enter `state` with the write of their set,
+  // or a resume would skip items whose new previews were never saved
+  const settled = new Map<string, string[]>();
+  const failures = new Map<string, CompressionFailure[]>();
+  let compressed = 0;
+
+  /**
+   * Writes the new previews of a set onto its latest stored version, then the job state
+   * Items and set images changed or removed meanwhile keep what they have now.
+   */
+  const persistSet = async (setId: string, finished: boolean) => {
+    const changes = replacements.get(setId);
+    const latest = changes?.size ? await getStickerSet(setId) : undefined;
+    const replace = <T extends { imageId?: string }>(image: T): T => {
+      const imageId = image.imageId && changes!.get(image.imageId);
+      return imageId && imageId !== image.imageId ? { ...image, imageId } : image;
+    };
+    if (latest) {
+      const next: StickerSet = { ...latest, items: latest.items.map(replace) };
+      SET_IMAGE_FIELDS.forEach(field => {
+        if (latest[field]) next[field] = replace(latest[field]!);
+      });
+      const changed = next.items.some((item, i) => item !== latest.items[i])
+        || SET_IMAGE_FIELDS.some(field => next[field] !== latest[field]);
+      if (changed) {
+        const updated = touchStickerSet(latest, next);
+        await saveStickerSet(updated);
+        onSetSaved?.(updated);
+      }
+    }
+    replacements.delete(setId);
+
+    state.failures.push(...(failures.get(setId) || []));
+    failures.delete(setId);
+    if (finished) {
+      state.pendingSetIds = state.pendingSetIds.filter(id => id !== setId);
+      delete state.settledItemIds[setId];
+    } else {
+      state.settledItemIds[setId] = [...(state.settledItemIds[setId] || []), ...(settled.get(setId) || [])];
+    }
+    settled.delete(setId);
+    await putSetting(JOB_SETTING, state);
+  };
+
+  // Set writes run one after another, in the order sets finish
+  let persisting = Promise.resolve();
+  const queuePersist = (setId: string, finished: boolean) => {
+    persisting = persisting.then(() => persistSet(setId, finished));
+  };
+
+  // Sets with nothing left to do (everything settled before an interruption)
+  sets.filter(set => !remaining.has(set.id)).forEach(set => queuePersist(set.id, true));
+
+  await mapWithConcurrency(
+    tasks,
+    CONCURRENCY,
+    async ({ set, image, key, index, name, setImage }: CompressionTask) => {
+      if (signal?.aborted) {
+        throw new CompressionCancelledError();
+      }
+      try {
+        const source = await getSourceImage(image);
+        if (!source) {
+          throw new Error('找不到圖片');
+        }
+        const imageId = await saveImage(await compressImage(source, resolveCompressionProfile(set)));
+        if (!replacements.has(set.id)) replacements.set(set.id, new Map());
+        replacements.get(set.id)!.set(image.imageId!, imageId);
+        compressed++;
+      } catch (err) {
+        console.error('壓縮圖片失敗:', err);
+        if (!failures.has(set.id)) failures.set(set.id, []);
+        failures.get(set.id)!.push({
+          setId: set.id,
+          setTitle: set.title,
+          itemId: key,
+          itemIndex: index,
+          itemName: name,
+          setImage,
+          message: (err as Error)?.message || '壓縮失敗'
+        });
+      }
+
+      if (!settled.has(set.id)) settled.set(set.id, []);
+      settled.get(set.id)!.push(key);
+      const left = remaining.get(set.id)! - 1;
+      remaining.set(set.id, left);
+      if (left === 0) queuePersist(set.id, true);
+    },
+    done => onProgress?.(done, tasks.length)
+  );
+
+  // Cancelled: keep what the interrupted sets already have
+  remaining.forEach((left, setId) => {
+    if (left > 0) queuePersist(setId, false);
+  });
+  await persisting;
+
+  const cancelled = state.pendingSetIds.length > 0;
+  if (!cancelled) {
+    await discardCompressionJob();
+  }
+  return { cancelled, compressed, failures: state.failures };
+}
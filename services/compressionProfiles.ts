@@ -0,0 +1,152 @@
+import { SetImage, StickerSet } from '../types';
+import { CompressionOptions, compressImage } from '../utils/imageCompression';
+import { PAPER_BACKGROUND } from '../utils/compressionCore';
+import { getImages, getSourceImage, setImageRefs } from './storage';
+
+/**
+ * Named settings for the previews stored in IndexedDB
+ * Originals are never re-encoded; the profile only decides how previews are made.
+ */
+export interface CompressionProfile extends CompressionOptions {
+  id: string;
+  label: string;
+  description: string;
+}
+
+const DEFAULT_PROFILE_KEY = 'latelier_compression_profile';
+
+export const PREVIEW_JPEG_PROFILE: CompressionProfile = {
+  id: 'preview-jpeg-800',
+  label: '預覽 JPEG 800',
+  description: '寬度最多 800 px，鋪上紙張底色，檔案最小（原本的預設）',
+  format: 'image/jpeg',
+  maxWidth: 800,
+  quality: 0.85,
+  background: PAPER_BACKGROUND
+};
+
+export const PREVIEW_WEBP_PROFILE: CompressionProfile = {
+  id: 'preview-webp-512',
+  label: '預覽 WebP 512',
+  description: '最長邊 512 px，保留透明背景',
+  format: 'image/webp',
+  maxWidth: 512,
+  maxHeight: 512,
+  quality: 0.8
+};
+
+export const LINE_STICKER_PNG_PROFILE: CompressionProfile = {
+  id: 'line-sticker-png',
+  label: 'LINE 貼圖 PNG 370×320',
+  description: '縮到 LINE 貼圖尺寸內的偶數寬高，保留透明背景',
+  format: 'image/png',
+  maxWidth: 370,
+  maxHeight: 320,
+  evenDimensions: true
+};
+
+export const ARCHIVE_PNG_PROFILE: CompressionProfile = {
+  id: 'archive-png',
+  label: '無損 PNG 存檔',
+  description: '原尺寸無損 PNG，畫質最好、檔案最大',
+  format: 'image/png'
+};
+
+const profiles: CompressionProfile[] = [
+  PREVIEW_JPEG_PROFILE,
+  PREVIEW_WEBP_PROFILE,
+  LINE_STICKER_PNG_PROFILE,
+  ARCHIVE_PNG_PROFILE
+];
+
+/**
+ * Adds a compression profile to the registry
+ */
+export function registerCompressionProfile(profile: CompressionProfile): void {
+  const index = profiles.findIndex(p => p.id === profile.id);
+  if (index !== -1) {
+    profiles[index] = profile;
+  } else {
+    profiles.push(profile);
+  }
+}
+
+export function getCompressionProfiles(): CompressionProfile[] {
+  return [...profiles];
+}
+
+export function loadDefaultCompressionProfileId(): string {
+  const stored = localStorage.getItem(DEFAULT_PROFILE_KEY);
+  return stored && profiles.some(p => p.id === stored) ? stored : PREVIEW_JPEG_PROFILE.id;
+}
+
+export function saveDefaultCompressionProfileId(id: string): void {
+  localStorage.setItem(DEFAULT_PROFILE_KEY, id);
+}
+
+/**
+ * Looks up a profile, falling back to the global default for unknown or missing ids
+ */
+export function getCompressionProfile(id?: string): CompressionProfile {
+  const defaultId = loadDefaultCompressionProfileId();
+  return profiles.find(p => p.id === id) || profiles.find(p => p.id === defaultId)!;
+}
+
+/**
+ * Profile used for a set's previews: its own choice, or the global default
+ */
+export function resolveCompressionProfile(set?: Pick<StickerSet, 'compressionProfile'>): CompressionProfile {
+  return getCompressionProfile(set?.compressionProfile);
+}
+
+export interface CompressionEstimate {
+  imageCount: number;
+  /** Current size of the previews */
+  currentBytes: number;
+  /** Estimated size of the previews after regenerating them, by profile id */
+  estimatedBytes: Record<string, number>;
+}
+
+/**
+ * Estimates what each profile would do to the previews of the given sets
+ * A few evenly spread images are compressed with every profile; their size ratio
+ * is applied to the total, so nothing is written.
+ * @param sampleSize - Number of images actually compressed per profile
+ */
+export async function estimateCompression(
+  sets: StickerSet[],
+  candidates: CompressionProfile[],
+  sampleSize = 6
+): Promise<CompressionEstimate> {
+  const images = new Map<string, SetImage>();
+  sets.forEach(set => setImageRefs(set).forEach(image => {
+    if (image.imageId) images.set(image.imageId, { imageId: image.imageId, originalId: image.originalId });
+  }));
+
+  const previews = await getImages(Array.from(images.keys()));
+  const previewSizes = new Map(previews.map(record => [record.id, record.blob.size]));
+  const currentBytes = previews.reduce((sum, record) => sum + record.blob.size, 0);
+
+  const all = Array.from(images.values()).filter(image => previewSizes.has(image.imageId));
+  const step = Math.max(1, all.length / sampleSize);
+  const sample = Array.from({ length: Math.min(sampleSize, all.length) }, (_, i) => all[Math.floor(i * step)]);
+
+  let sampleCurrent = 0;
+  const sampleCompressed: Record<string, number> = Object.fromEntries(candidates.map(p => [p.id, 0]));
+  // One image at a time: each source is decoded once per profile
+  for (const image of sample) {
+    const source = await getSourceImage(image);
+    if (!source) continue;
+    sampleCurrent += previewSizes.get(image.imageId)!;
+    for (const profile of candidates) {
+      sampleCompressed[profile.id] += (await compressImage(source, profile)).size;
+    }
+  }
+
+  const estimatedBytes = Object.fromEntries(candidates.map(profile => [
+    profile.id,
+    sampleCurrent > 0 ? Math.round(currentBytes * (sampleCompressed[profile.id] / sampleCurrent)) : currentBytes
+  ]));
+
+  return { imageCount: all.length, currentBytes, estimatedBytes };
+}
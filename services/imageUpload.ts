@@ -0,0 +1,20 @@
+import { compressImage } from '../utils/imageCompression';
+import { saveImage, saveOriginalImage } from './storage';
+import { CompressionProfile, getCompressionProfile } from './compressionProfiles';
+
+/**
+ * Stores an uploaded image: the untouched file (with transparency) as the original
+ * and a compressed preview for the grid
+ * The blobs start unreferenced until the editor draft or the set using them is saved.
+ * @param profile - How the preview is made, the global default when omitted
+ */
+export async function storeUploadedImage(
+  file: Blob,
+  profile: CompressionProfile = getCompressionProfile()
+): Promise<{ imageId: string; originalId: string }> {
+  const [imageId, originalId] = await Promise.all([
+    compressImage(file, profile).then(saveImage),
+    saveOriginalImage(file)
+  ]);
+  return { imageId, originalId };
+}
@@ -0,0 +1,83 @@
+import { getImage, getOriginalImage } from './storage';
+
+// How long an object URL nobody uses is kept, so a remount or a re-render of a list reuses it
+const REVOKE_DELAY_MS = 5000;
+
+interface UrlEntry {
+  /** Mounted consumers of the URL */
+  consumers: number;
+  url?: string;
+  request?: Promise<string | undefined>;
+  revokeTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Ids are content hashes, so an object URL never goes stale and can be shared while in use
+const entries = new Map<string, UrlEntry>();
+
+const revoke = (key: string) => {
+  const entry = entries.get(key);
+  if (!entry || entry.consumers > 0) return;
+  if (entry.url) URL.revokeObjectURL(entry.url);
+  entries.delete(key);
+};
+
+const retainUrl = (key: string, load: () => Promise<Blob | undefined>): Promise<string | undefined> => {
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = { consumers: 0 };
+    entries.set(key, entry);
+  }
+  entry.consumers++;
+  clearTimeout(entry.revokeTimer);
+  if (entry.url) return Promise.resolve(entry.url);
+
+  if (!entry.request) {
+    const current = entry;
+    current.request = load()
+      .then(blob => {
+        if (!blob || entries.get(key) !== current) return undefined;
+        current.url = URL.createObjectURL(blob);
+        return current.url;
+      })
+      .finally(() => {
+        current.request = undefined;
+        // Every consumer left while the blob was loading
+        if (current.consumers === 0) revoke(key);
+      });
+  }
+  return entry.request;
+};
+
+const releaseUrl = (key: string) => {
+  const entry = entries.get(key);
+  if (!entry || entry.consumers === 0) return;
+  entry.consumers--;
+  if (entry.consumers === 0 && !entry.request) {
+    entry.revokeTimer = setTimeout(() => revoke(key), REVOKE_DELAY_MS);
+  }
+};
+
+/**
+ * Returns an object URL for a preview image, loading the blob on first use
+ * Every call must be paired with a releaseImageObjectUrl once the URL is no longer displayed.
+ */
+export const retainImageObjectUrl = (id: string): Promise<string | undefined> =>
+  retainUrl(`image:${id}`, () => getImage(id));
+
+export const releaseImageObjectUrl = (id: string): void => releaseUrl(`image:${id}`);
+
+/**
+ * Synchronously returns an already created object URL, if any
+ */
+export const peekImageObjectUrl = (id: string): string | undefined => entries.get(`image:${id}`)?.url;
+
+/**
+ * Returns an object URL for a lossless original, loading the blob on first use
+ * Every call must be paired with a releaseOriginalObjectUrl.
+ */
+export const retainOriginalObjectUrl = (id: string): Promise<string | undefined> =>
+  retainUrl(`original:${id}`, () => getOriginalImage(id));
+
+export const releaseOriginalObjectUrl = (id: string): void => releaseUrl(`original:${id}`);
+
+export const peekOriginalObjectUrl = (id: string): string | undefined => entries.get(`original:${id}`)?.url;
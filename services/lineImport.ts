@@ -0,0 +1,201 @@
+import JSZip from 'jszip';
+import { SetImage, StickerItem, StickerSet } from '../types';
+import { storeUploadedImage } from './imageUpload';
+import { compareFileNames, isImageFile } from '../utils/imageMapping';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { loadImageFromBlob } from '../utils/imageResize';
+
+const MAX_ITEMS = 40;
+
+// Same pace as the bulk import in the editor: compression runs on the main thread
+const CONCURRENCY = 3;
+
+// LINE emoji are exactly 180 x 180, stickers are at most 370 x 320
+const EMOJI_SIZE = 180;
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp'
+};
+
+/**
+ * Files found in a LINE-style package (`01.png`…`40.png`, `main.png`, `tab.png`)
+ */
+export interface LinePackageContent {
+  /** Suggested title: the ZIP or folder name */
+  name: string;
+  /** Numbered images by item number (1-based) */
+  items: Map<number, File>;
+  main?: File;
+  tab?: File;
+  /** Files that will not be imported, with the reason */
+  skipped: { name: string; reason: string }[];
+}
+
+export interface LineImportResult {
+  set: StickerSet;
+  /** Images that could not be stored; their slots stay empty */
+  failed: { name: string; message: string }[];
+}
+
+const baseName = (path: string) => path.split('/').pop()!;
+
+// Hidden files and the resource forks macOS adds to ZIPs
+const isHiddenPath = (path: string) => path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+const extension = (name: string) => (name.match(/\.([^.]+)$/)?.[1] || '').toLowerCase();
+
+/**
+ * Extracts the files of a ZIP; JSZip blobs have no type, so it is taken from the extension
+ */
+async function unzipFiles(zipFile: File): Promise<File[]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(zipFile);
+  } catch (error) {
+    console.error('Failed to read ZIP:', error);
+    throw new Error(`無法讀取「${zipFile.name}」，請確認是 ZIP 檔`);
+  }
+
+  const entries = Object.values(zip.files).filter(entry => !entry.dir && !isHiddenPath(entry.name));
+  return Promise.all(entries.map(async entry =>
+    new File([await entry.async('blob')], entry.name, { type: MIME_TYPES[extension(entry.name)] || '' })
+  ));
+}
+
+/**
+ * Reads a LINE-style package from a ZIP file or from the files of a picked folder
+ * Only base names count: `stickers/01.png` is item 1. Numbers must be the whole name (`01.png`, `001.png`).
+ * @param source - A single .zip file, or folder files (with `webkitRelativePath`)
+ * @throws Error if the ZIP cannot be read or it contains no usable image
+ */
+export async function readLinePackage(source: File | File[]): Promise<LinePackageContent> {
+  let name: string;
+  let files: File[];
+  if (source instanceof File) {
+    name = source.name.replace(/\.zip$/i, '');
+    files = await unzipFiles(source);
+  } else {
+    name = source[0]?.webkitRelativePath.split('/')[0] || '';
+    files = source.filter(file => !isHiddenPath(file.webkitRelativePath || file.name));
+  }
+
+  const content: LinePackageContent = { name, items: new Map(), skipped: [] };
+
+  [...files].sort(compareFileNames).forEach(file => {
+    const fileName = baseName(file.name);
+    if (!isImageFile(file)) {
+      content.skipped.push({ name: fileName, reason: '不是圖片檔' });
+      return;
+    }
+
+    const base = fileName.replace(/\.[^.]+$/, '').toLowerCase();
+    if (base === 'main' || base === 'tab') {
+      if (content[base]) {
+        content.skipped.push({ name: fileName, reason: `${base} 圖片重複` });
+      } else {
+        content[base] = file;
+      }
+      return;
+    }
+
+    if (!/^\d+$/.test(base)) {
+      content.skipped.push({ name: fileName, reason: '檔名不是編號' });
+      return;
+    }
+
+    const number = parseInt(base, 10);
+    if (number < 1 || number > MAX_ITEMS) {
+      content.skipped.push({ name: fileName, reason: `編號 ${number} 超出範圍（1–${MAX_ITEMS}）` });
+    } else if (content.items.has(number)) {
+      content.skipped.push({ name: fileName, reason: `編號 ${number} 重複` });
+    } else {
+      content.items.set(number, file);
+    }
+  });
+
+  if (content.items.size === 0) {
+    throw new Error('找不到編號圖片（01.png、02.png…）');
+  }
+  return content;
+}
+
+/**
+ * Emoji when the first item is a square of at most 180 px, otherwise stickers
+ */
+async function inferSetType(content: LinePackageContent): Promise<StickerSet['type']> {
+  const first = content.items.get(Math.min(...content.items.keys()))!;
+  const img = await loadImageFromBlob(first);
+  return img.naturalWidth === img.naturalHeight && img.naturalWidth <= EMOJI_SIZE ? 'Emoji' : 'Sticker';
+}
+
+/**
+ * Stores the images of a package and builds a new set from them
+ * The item count is the highest item number, so gaps stay as empty slots.
+ * The set is not saved; its blobs stay unreferenced until the caller saves it.
+ * @param id - Id of the new set
+ * @param onProgress - Called after each stored image
+ */
+export async function createSetFromLinePackage(
+  content: LinePackageContent,
+  id: string,
+  defaults: Pick<StickerSet, 'series'>,
+  onProgress?: (done: number, total: number) => void
+): Promise<LineImportResult> {
+  const type = await inferSetType(content);
+  const itemCount = Math.max(...content.items.keys());
+
+  const uploads = [
+    ...Array.from(content.items.entries()).map(([number, file]) => ({ key: number, file })),
+    ...(content.main ? [{ key: 'main' as const, file: content.main }] : []),
+    ...(content.tab ? [{ key: 'tab' as const, file: content.tab }] : [])
+  ];
+  const results = await mapWithConcurrency(
+    uploads,
+    CONCURRENCY,
+    (upload: { key: number | 'main' | 'tab'; file: File }) => storeUploadedImage(upload.file),
+    onProgress
+  );
+
+  const stored = new Map<number | 'main' | 'tab', SetImage>();
+  const failed: LineImportResult['failed'] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      stored.set(uploads[i].key, result.value);
+    } else {
+      console.error('LINE package import failed:', result.reason);
+      failed.push({ name: baseName(uploads[i].file.name), message: result.reason?.message || '處理失敗' });
+    }
+  });
+
+  const items: StickerItem[] = Array.from({ length: itemCount }, (_, i) => ({
+    id: `item-${id}-${i}`,
+    originalOrder: i + 1,
+    name: `Image ${i + 1}`,
+    ...stored.get(i + 1)
+  }));
+
+  const set: StickerSet = {
+    id,
+    order: 0,
+    title: content.name || 'Nouvelle Collection',
+    enTitle: content.name || 'New Collection',
+    series: defaults.series,
+    zhDesc: '',
+    enDesc: '',
+    storeUrl: '',
+    status: 'IDEATION',
+    type,
+    itemCount,
+    createdAt: Date.now(),
+    items
+  };
+  if (stored.has('main')) set.mainImage = stored.get('main');
+  if (stored.has('tab')) set.tabImage = stored.get('tab');
+
+  return { set, failed };
+}
@@ -0,0 +1,125 @@
+import JSZip from 'jszip';
+import { SetImage, StickerItem, StickerSet } from '../types';
+import { getSourceImage } from './storage';
+import { storeUploadedImage } from './imageUpload';
+import { CompressionProfile } from './compressionProfiles';
+import { resizeToPng, ResizeOptions } from '../utils/imageResize';
+
+const MAX_ITEMS = 40;
+
+interface LinePackageSpec {
+  /** Number of digits used for item file names (01.png vs 001.png) */
+  digits: number;
+  item: ResizeOptions;
+  main?: ResizeOptions;
+  tab: ResizeOptions;
+}
+
+export type SetImageField = 'mainImage' | 'tabImage';
+
+/** LINE main and tab image sizes (the same for stickers and emoji) */
+export const SET_IMAGE_SIZES: Record<SetImageField, { width: number; height: number }> = {
+  mainImage: { width: 240, height: 240 },
+  tabImage: { width: 96, height: 74 }
+};
+
+/**
+ * LINE Creators Market image guidelines
+ * Stickers: max 370 x 320 with even dimensions, main 240 x 240, tab 96 x 74
+ * Emoji: 180 x 180, tab 96 x 74
+ */
+const LINE_SPECS: Record<StickerSet['type'], LinePackageSpec> = {
+  Sticker: {
+    digits: 2,
+    item: { width: 370, height: 320, fit: 'inside', evenDimensions: true },
+    main: { ...SET_IMAGE_SIZES.mainImage, fit: 'canvas' },
+    tab: { ...SET_IMAGE_SIZES.tabImage, fit: 'canvas' }
+  },
+  Emoji: {
+    digits: 3,
+    item: { width: 180, height: 180, fit: 'canvas' },
+    tab: { ...SET_IMAGE_SIZES.tabImage, fit: 'canvas' }
+  }
+};
+
+/**
+ * Resizes an item or set image, preferring the lossless original over the JPEG preview
+ * so that transparency survives into the submission files
+ * @param label - Names the image in the error message
+ */
+async function renderImage(image: StickerItem | SetImage, label: string, options: ResizeOptions): Promise<Blob> {
+  const source = await getSourceImage(image);
+  if (!source) {
+    throw new Error(`找不到「${label}」的圖片`);
+  }
+  return resizeToPng(source, options);
+}
+
+const renderItem = (item: StickerItem, options: ResizeOptions) => renderImage(item, item.name, options);
+
+/**
+ * Generates a main or tab image from an item and stores it
+ * @param mode - 'crop' fills the whole frame and cuts the overflow, 'fit' keeps the whole item with transparent padding
+ * @param profile - How the preview is made
+ */
+export async function generateSetImage(
+  item: StickerItem,
+  field: SetImageField,
+  mode: 'crop' | 'fit',
+  profile?: CompressionProfile
+): Promise<SetImage> {
+  const png = await renderItem(item, { ...SET_IMAGE_SIZES[field], fit: mode === 'crop' ? 'cover' : 'canvas' });
+  return storeUploadedImage(png, profile);
+}
+
+export interface LinePackageResult {
+  blob: Blob;
+  filename: string;
+  /** Number of numbered images written to the package */
+  imageCount: number;
+  /** Names of items skipped because they have no image */
+  skippedItems: string[];
+}
+
+/**
+ * Builds a LINE Creators Market submission ZIP for a sticker set.
+ * Items are numbered in their current order; items without an image are skipped.
+ */
+export async function buildLinePackage(set: StickerSet): Promise<LinePackageResult> {
+  const spec = LINE_SPECS[set.type] || LINE_SPECS.Sticker;
+  const withImages = set.items.filter(item => item.imageId);
+  const skippedItems = set.items.filter(item => !item.imageId).map(item => item.name);
+
+  if (withImages.length === 0) {
+    throw new Error('這個貼圖集還沒有任何圖片');
+  }
+
+  const zip = new JSZip();
+  const items = withImages.slice(0, MAX_ITEMS);
+
+  for (let i = 0; i < items.length; i++) {
+    const filename = `${(i + 1).toString().padStart(spec.digits, '0')}.png`;
+    zip.file(filename, await renderItem(items[i], spec.item));
+  }
+
+  // Main and tab images come from their own slots, or are generated from the first item
+  const cover = items[0];
+  if (spec.main) {
+    zip.file('main.png', set.mainImage
+      ? await renderImage(set.mainImage, 'main', spec.main)
+      : await renderItem(cover, spec.main));
+  }
+  zip.file('tab.png', set.tabImage
+    ? await renderImage(set.tabImage, 'tab', spec.tab)
+    : await renderItem(cover, spec.tab));
+
+  const blob = await zip.generateAsync({ type: 'blob' });
+  const baseName = (set.enTitle || set.title || set.id).trim().replace(/[\\/:*?"<>|\s]+/g, '_');
+
+  return {
+    blob,
+    filename: `${baseName}-line-${set.type.toLowerCase()}.zip`,
+    imageCount: items.length,
+    skippedItems
+  };
+}
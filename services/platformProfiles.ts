@@ -0,0 +1,72 @@
+import { StickerSet } from '../types';
+import {
+  PlatformProfile,
+  requireImage,
+  maxDimensions,
+  exactDimensions,
+  evenDimensions,
+  allowedFormats,
+  maxFileSize,
+  transparentBackground,
+  allowedCounts
+} from './platformValidator';
+
+/** Set sizes accepted by LINE Creators Market (stickers and emoji) */
+export const LINE_COUNTS = [8, 16, 24, 32, 40];
+
+const ONE_MB = 1024 * 1024;
+
+/** LINE store listing limits (same for every language) */
+const LINE_TEXT_LIMITS = { title: 40, description: 160 };
+
+export const LINE_STICKER_PROFILE: PlatformProfile = {
+  id: 'line-sticker',
+  label: 'LINE 貼圖',
+  setType: 'Sticker',
+  setRules: [allowedCounts(LINE_COUNTS)],
+  itemRules: [
+    requireImage(),
+    maxDimensions(370, 320),
+    evenDimensions(),
+    allowedFormats(['image/png'], 'PNG'),
+    maxFileSize(ONE_MB),
+    transparentBackground()
+  ],
+  textLimits: LINE_TEXT_LIMITS
+};
+
+export const LINE_EMOJI_PROFILE: PlatformProfile = {
+  id: 'line-emoji',
+  label: 'LINE 表情貼',
+  setType: 'Emoji',
+  setRules: [allowedCounts(LINE_COUNTS)],
+  itemRules: [
+    requireImage(),
+    exactDimensions(180, 180),
+    allowedFormats(['image/png'], 'PNG'),
+    maxFileSize(ONE_MB),
+    transparentBackground()
+  ],
+  textLimits: LINE_TEXT_LIMITS
+};
+
+const profiles: PlatformProfile[] = [LINE_STICKER_PROFILE, LINE_EMOJI_PROFILE];
+
+/**
+ * Adds a platform profile (e.g. Telegram, WhatsApp) to the registry
+ */
+export function registerPlatformProfile(profile: PlatformProfile): void {
+  const index = profiles.findIndex(p => p.id === profile.id);
+  if (index !== -1) {
+    profiles[index] = profile;
+  } else {
+    profiles.push(profile);
+  }
+}
+
+/**
+ * Lists the profiles that can validate a set of the given type
+ */
+export function getProfilesForType(type: StickerSet['type']): PlatformProfile[] {
+  return profiles.filter(p => p.setType === type);
+}
@@ -0,0 +1,189 @@
+import { StickerItem, StickerSet } from '../types';
+import { getImage, getOriginalImage } from './storage';
+import { loadImageFromBlob } from '../utils/imageResize';
+
+export interface ImageInfo {
+  width: number;
+  height: number;
+  mimeType: string;
+  bytes: number;
+  /** True when most of the image border is fully transparent */
+  hasTransparentBackground: boolean;
+}
+
+export interface ValidationIssue {
+  rule: string;
+  message: string;
+}
+
+export type ItemRule = (item: StickerItem, info: ImageInfo | null) => ValidationIssue | null;
+export type SetRule = (set: StickerSet) => ValidationIssue | null;
+
+/**
+ * Rules of a target platform (LINE, Telegram, WhatsApp...)
+ * Profiles are plain objects so new platforms can be added without touching the engine
+ */
+export interface PlatformProfile {
+  id: string;
+  label: string;
+  setType: StickerSet['type'];
+  setRules: SetRule[];
+  itemRules: ItemRule[];
+  /** Store listing character limits, per language */
+  textLimits: {
+    title: number;
+    description: number;
+  };
+}
+
+export interface ValidationReport {
+  profileId: string;
+  setIssues: ValidationIssue[];
+  itemIssues: Record<string, ValidationIssue[]>; // item id -> issues
+}
+
+// --- Rule factories ---
+
+const formatKB = (bytes: number) => `${(bytes / 1024).toFixed(0)} KB`;
+
+export const requireImage = (): ItemRule => (item) =>
+  item.imageId ? null : { rule: 'image', message: '尚未上傳圖片' };
+
+export const maxDimensions = (maxWidth: number, maxHeight: number): ItemRule => (_, info) =>
+  info && (info.width > maxWidth || info.height > maxHeight)
+    ? { rule: 'maxDimensions', message: `尺寸 ${info.width}×${info.height} 超過上限 ${maxWidth}×${maxHeight}` }
+    : null;
+
+export const exactDimensions = (width: number, height: number): ItemRule => (_, info) =>
+  info && (info.width !== width || info.height !== height)
+    ? { rule: 'exactDimensions', message: `尺寸 ${info.width}×${info.height} 必須為 ${width}×${height}` }
+    : null;
+
+export const evenDimensions = (): ItemRule => (_, info) =>
+  info && (info.width % 2 !== 0 || info.height % 2 !== 0)
+    ? { rule: 'evenDimensions', message: `尺寸 ${info.width}×${info.height} 必須為偶數` }
+    : null;
+
+export const allowedFormats = (mimeTypes: string[], label: string): ItemRule => (_, info) =>
+  info && !mimeTypes.includes(info.mimeType)
+    ? { rule: 'format', message: `格式為 ${info.mimeType || '未知'}，必須為 ${label}` }
+    : null;
+
+export const maxFileSize = (maxBytes: number): ItemRule => (_, info) =>
+  info && info.bytes > maxBytes
+    ? { rule: 'fileSize', message: `檔案 ${formatKB(info.bytes)} 超過上限 ${formatKB(maxBytes)}` }
+    : null;
+
+export const transparentBackground = (): ItemRule => (_, info) =>
+  info && !info.hasTransparentBackground
+    ? { rule: 'transparency', message: '背景必須為透明' }
+    : null;
+
+export const allowedCounts = (counts: number[]): SetRule => (set) =>
+  counts.includes(set.items.length)
+    ? null
+    : { rule: 'count', message: `數量 ${set.items.length} 不符合規定（${counts.join(' / ')}）` };
+
+// --- Image analysis ---
+
+const infoCache = new Map<string, Promise<ImageInfo>>();
+
+/**
+ * Measures a blob: dimensions, format, size and whether its border is transparent
+ */
+async function measureBlob(blob: Blob): Promise<ImageInfo> {
+  const img = await loadImageFromBlob(blob);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.drawImage(img, 0, 0);
+
+  // Sample the one-pixel border: stickers on a transparent canvas have a mostly clear edge
+  const { data } = ctx.getImageData(0, 0, width, height);
+  let borderPixels = 0;
+  let transparentPixels = 0;
+  const sample = (x: number, y: number) => {
+    borderPixels++;
+    if (data[(y * width + x) * 4 + 3] === 0) transparentPixels++;
+  };
+  for (let x = 0; x < width; x++) {
+    sample(x, 0);
+    sample(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    sample(0, y);
+    sample(width - 1, y);
+  }
+
+  return {
+    width,
+    height,
+    mimeType: blob.type,
+    bytes: blob.size,
+    hasTransparentBackground: borderPixels > 0 && transparentPixels / borderPixels >= 0.5
+  };
+}
+
+/**
+ * Analyzes the image that would be submitted for an item:
+ * the lossless original when available, otherwise the preview
+ */
+export function analyzeItemImage(item: StickerItem): Promise<ImageInfo> | null {
+  const key = item.originalId || item.imageId;
+  if (!key) return null;
+
+  let cached = infoCache.get(key);
+  if (!cached) {
+    cached = (async () => {
+      const original = item.originalId ? await getOriginalImage(item.originalId) : undefined;
+      const blob = original ?? (item.imageId ? await getImage(item.imageId) : undefined);
+      if (!blob) {
+        throw new Error('Image not found');
+      }
+      return measureBlob(blob);
+    })();
+    // Failed analyses should be retried next time
+    cached.catch(() => infoCache.delete(key));
+    infoCache.set(key, cached);
+  }
+  return cached;
+}
+
+/**
+ * Checks a set against a platform profile
+ */
+export async function validateStickerSet(set: StickerSet, profile: PlatformProfile): Promise<ValidationReport> {
+  const setIssues = profile.setRules
+    .map(rule => rule(set))
+    .filter((issue): issue is ValidationIssue => issue !== null);
+
+  const itemIssues: Record<string, ValidationIssue[]> = {};
+  await Promise.all(set.items.map(async (item) => {
+    let info: ImageInfo | null = null;
+    try {
+      info = await analyzeItemImage(item);
+    } catch (e) {
+      console.error('Image analysis failed:', e);
+    }
+
+    const issues = profile.itemRules
+      .map(rule => rule(item, info))
+      .filter((issue): issue is ValidationIssue => issue !== null);
+
+    if (item.imageId && !info) {
+      issues.push({ rule: 'decode', message: '無法讀取圖片' });
+    }
+    if (issues.length > 0) {
+      itemIssues[item.id] = issues;
+    }
+  }));
+
+  return { profileId: profile.id, setIssues, itemIssues };
+}
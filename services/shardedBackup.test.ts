@@ -0,0 +1,103 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { BACKUP_VERSION, BackupFile } from './backup';
+import { SHARD_MAX_BYTES, decodeShardedBackup, encodeShardedBackup } from './shardedBackup';
+
+// Content-addressed ids are SHA-256 hex digests, spread evenly over the buckets
+const imageId = (n: number) => createHash('sha256').update(`image-${n}`).digest('hex');
+
+const dataUrl = (bytes: number, seed: number) =>
+  `data:image/png;base64,${String.fromCharCode(65 + (seed % 26)).repeat(bytes)}`;
+
+/**
+ * ~14 MB of previews and originals: far more than one shard can hold
+ */
+const largeBackup = (): BackupFile => {
+  const images: Record<string, string> = {};
+  const originals: Record<string, string> = {};
+  for (let i = 0; i < 120; i++) {
+    images[imageId(i)] = dataUrl(30 * 1024, i);
+    originals[imageId(1000 + i)] = dataUrl(90 * 1024, i);
+  }
+  // A single image over the budget
+  originals[imageId(5000)] = dataUrl(SHARD_MAX_BYTES + 1024, 0);
+
+  return {
+    version: BACKUP_VERSION,
+    sets: [{
+      id: 'set-1',
+      order: 0,
+      title: 'Test',
+      enTitle: '',
+      series: '',
+      zhDesc: '',
+      enDesc: '',
+      storeUrl: '',
+      status: 'IN_PROGRESS',
+      type: 'Sticker',
+      itemCount: 1,
+      createdAt: 0,
+      items: [{ id: 'item-1', originalOrder: 0, name: '', imageId: imageId(0), originalId: imageId(1000) }]
+    }],
+    images,
+    originals
+  };
+};
+
+type Encoded = Awaited<ReturnType<typeof encodeShardedBackup>>;
+
+// Image shards added, removed or with a different content hash
+const changedShards = (before: Encoded, after: Encoded) => {
+  const shards = ({ manifest }: Encoded) => [...manifest.shards!.images, ...manifest.shards!.originals];
+  const names = new Set([...shards(before), ...shards(after)]);
+  return Array.from(names).filter(name => before.manifest.files[name] !== after.manifest.files[name]);
+};
+
+describe('encodeShardedBackup', () => {
+  it('keeps every image shard within the byte budget', async () => {
+    const { manifest, files } = await encodeShardedBackup(largeBackup());
+
+    const shards = [...manifest.shards!.images, ...manifest.shards!.originals];
+    expect(manifest.shards!.images.length).toBeGreaterThan(1);
+    expect(manifest.shards!.originals.length).toBeGreaterThan(10);
+
+    const oversized = shards.filter(name => files[name].length > SHARD_MAX_BYTES);
+    // Only the shard holding the image that is bigger than the budget by itself
+    expect(oversized).toHaveLength(1);
+    expect(Object.keys(JSON.parse(files[oversized[0]]))).toEqual([imageId(5000)]);
+  });
+
+  it('lists every shard in the manifest and decodes back to the same backup', async () => {
+    const backup = largeBackup();
+    const { manifest, files } = await encodeShardedBackup(backup);
+
+    [...manifest.shards!.images, ...manifest.shards!.originals].forEach(name => {
+      expect(manifest.files[name]).toBeDefined();
+    });
+    expect(decodeShardedBackup(manifest, files)).toEqual(backup);
+  });
+
+  it('rewrites exactly one shard when an image is added', async () => {
+    const backup = largeBackup();
+    const before = await encodeShardedBackup(backup);
+    const after = await encodeShardedBackup({
+      ...backup,
+      images: { ...backup.images, [imageId(999)]: dataUrl(30 * 1024, 1) }
+    });
+
+    // Lands among the existing ids, not after all of them
+    const sortedIds = [...Object.keys(backup.images), imageId(999)].sort();
+    expect(sortedIds.indexOf(imageId(999))).toBeGreaterThan(0);
+    expect(sortedIds.indexOf(imageId(999))).toBeLessThan(sortedIds.length - 1);
+    expect(changedShards(before, after)).toHaveLength(1);
+  });
+
+  it('rewrites exactly one shard when an image is deleted', async () => {
+    const backup = largeBackup();
+    const before = await encodeShardedBackup(backup);
+    const { [imageId(60)]: _deleted, ...images } = backup.images;
+    const after = await encodeShardedBackup({ ...backup, images });
+
+    expect(changedShards(before, after)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,236 @@
+import { StickerSet } from '../types';
+import { BACKUP_VERSION, BackupFile, parseBackup } from './backup';
+import { sha256Hex } from '../utils/hash';
+
+/**
+ * Multi-file layout of a backup, used for cloud storage:
+ *  - manifest.json: set order and the hash of every data file
+ *  - set-<id>.json: one StickerSet (image references only)
+ *  - images-<prefix>.json / originals-<prefix>.json: images grouped by the first hex digit(s) of their id
+ * Content-addressed images always land in the same bucket, so an edit only rewrites the set file
+ * and the shards that gained or lost an image. A bucket over the byte budget is split by the next
+ * digit, which only rewrites that bucket.
+ */
+
+export const MANIFEST_FILENAME = 'manifest.json';
+/** Single-file layout used before sharding (BackupFile or legacy StickerSet[]) */
+export const LEGACY_BACKUP_FILENAME = 'sticker-sets.json';
+
+const MANIFEST_FORMAT = 'latelier-sharded';
+
+/**
+ * Size limit of an image shard; the Gist API returns files up to 1 MB inline,
+ * larger ones need an extra request each. A single bigger image gets a shard of its own.
+ */
+export const SHARD_MAX_BYTES = 900 * 1024;
+
+export interface BackupManifest {
+  format: typeof MANIFEST_FORMAT;
+  version: number; // BackupFile version of the content
+  sets: string[]; // Set ids, in order
+  files: Record<string, string>; // Data file name -> SHA-256 of its content
+  /** Image shard file names (missing in manifests written before oversized buckets were split) */
+  shards?: { images: string[]; originals: string[] };
+}
+
+/** File name -> content */
+export type BackupFiles = Record<string, string>;
+
+/** Read-only view of stored backup files: a sync backend, or one of its past revisions */
+export interface BackupSource {
+  list(): Promise<string[]>;
+  /** @returns null when the file does not exist */
+  read(name: string): Promise<string | null>;
+}
+
+export interface StoredBackup {
+  backup: BackupFile;
+  /** null for the legacy single-file layout or an empty source */
+  manifest: BackupManifest | null;
+  legacy: boolean;
+}
+
+const setFileName = (id: string) => `set-${id.replace(/[^\w-]/g, '_')}.json`;
+
+// Serialized size of one `"id":"data",` entry; ids and base64 data URLs are ASCII
+const entryBytes = (id: string, data: string) => JSON.stringify(id).length + JSON.stringify(data).length + 2;
+
+// Ids are SHA-256 hex digests; anything else shares the `_` bucket at that depth
+const bucketChar = (id: string, depth: number) => (/[0-9a-f]/.test(id[depth] ?? '') ? id[depth] : '_');
+
+/**
+ * Splits images into hash-prefix buckets of at most `maxBytes`
+ * Starts from the first digit and splits an oversized bucket by the next one; ids are
+ * sorted so unchanged shards serialize identically. A single image over the budget gets
+ * a shard of its own.
+ */
+const shardImages = (prefix: string, images: Record<string, string>, maxBytes = SHARD_MAX_BYTES): BackupFiles => {
+  const files: BackupFiles = {};
+
+  const bucket = (ids: string[], key: string, depth: number) => {
+    // `{}` around the entries takes the last entry's comma
+    const bytes = ids.reduce((sum, id) => sum + entryBytes(id, images[id]), 1);
+    if (key && (bytes <= maxBytes || ids.length === 1 || ids.every(id => depth >= id.length))) {
+      files[`${prefix}-${key}.json`] = JSON.stringify(Object.fromEntries(ids.map(id => [id, images[id]])));
+      return;
+    }
+
+    const groups = new Map<string, string[]>();
+    ids.forEach(id => {
+      const char = bucketChar(id, depth);
+      groups.set(char, [...(groups.get(char) || []), id]);
+    });
+    Array.from(groups.keys()).sort().forEach(char => bucket(groups.get(char)!, key + char, depth + 1));
+  };
+
+  bucket(Object.keys(images).sort(), '', 0);
+  return files;
+};
+
+const hashText = (text: string) => sha256Hex(new Blob([text]));
+
+/**
+ * Serializes a backup into the sharded layout
+ * @returns The data files and the manifest describing them (manifest content included in `files`)
+ */
+export async function encodeShardedBackup(backup: BackupFile): Promise<{ manifest: BackupManifest; files: BackupFiles }> {
+  const imageShards = shardImages('images', backup.images);
+  const originalShards = shardImages('originals', backup.originals);
+  const dataFiles: BackupFiles = {
+    ...Object.fromEntries(backup.sets.map(set => [setFileName(set.id), JSON.stringify(set, null, 2)])),
+    ...imageShards,
+    ...originalShards
+  };
+
+  const hashes = await Promise.all(Object.entries(dataFiles).map(async ([name, content]) => [name, await hashText(content)]));
+  const manifest: BackupManifest = {
+    format: MANIFEST_FORMAT,
+    version: backup.version,
+    sets: backup.sets.map(set => set.id),
+    files: Object.fromEntries(hashes),
+    shards: { images: Object.keys(imageShards), originals: Object.keys(originalShards) }
+  };
+
+  return { manifest, files: { ...dataFiles, [MANIFEST_FILENAME]: JSON.stringify(manifest, null, 2) } };
+}
+
+/**
+ * Validates a parsed manifest file
+ * @throws Error if the content is not a sharded backup manifest
+ */
+export function parseManifest(data: unknown): BackupManifest {
+  const candidate = data as Partial<BackupManifest> | null;
+  if (!candidate || candidate.format !== MANIFEST_FORMAT || !Array.isArray(candidate.sets) || typeof candidate.files !== 'object') {
+    throw new Error('備份索引檔格式不正確');
+  }
+  return candidate as BackupManifest;
+}
+
+const isImageShard = (name: string) => name.startsWith('images-') || name.startsWith('originals-');
+
+/**
+ * Rebuilds a backup from the manifest and its data files
+ * @param includeImages - false to decode the sets only (image shards are then not needed)
+ * @throws Error if a file listed in the manifest is missing
+ */
+export function decodeShardedBackup(manifest: BackupManifest, files: BackupFiles, includeImages = true): BackupFile {
+  const read = (name: string) => {
+    const content = files[name];
+    if (content === undefined) {
+      throw new Error(`備份檔案缺少 ${name}`);
+    }
+    return JSON.parse(content);
+  };
+
+  // Older manifests list their hex-bucket shards in `files` only
+  const shardNames = (prefix: 'images' | 'originals') =>
+    manifest.shards?.[prefix] ?? Object.keys(manifest.files).filter(name => name.startsWith(`${prefix}-`));
+
+  const collect = (prefix: 'images' | 'originals') => !includeImages ? {} : shardNames(prefix)
+    .reduce<Record<string, string>>((acc, name) => Object.assign(acc, read(name)), {});
+
+  return {
+    version: manifest.version ?? BACKUP_VERSION,
+    sets: manifest.sets.map(id => read(setFileName(id)) as StickerSet),
+    images: collect('images'),
+    originals: collect('originals')
+  };
+}
+
+/**
+ * Reads a backup from any source, in the sharded or the legacy single-file layout
+ * Data files are fetched in parallel
+ * @param options.includeImages - false to skip image shards (e.g. for summaries)
+ */
+export async function readStoredBackup(source: BackupSource, options: { includeImages?: boolean } = {}): Promise<StoredBackup> {
+  const includeImages = options.includeImages ?? true;
+  const names = await source.list();
+
+  if (names.includes(MANIFEST_FILENAME)) {
+    const manifest = parseManifest(JSON.parse((await source.read(MANIFEST_FILENAME)) || ''));
+    const fileNames = Object.keys(manifest.files).filter(name => includeImages || !isImageShard(name));
+    const contents = await Promise.all(fileNames.map(async (name) => {
+      const content = await source.read(name);
+      if (content === null) {
+        throw new Error(`雲端備份缺少 ${name}，請重新上傳資料到雲端。`);
+      }
+      return content;
+    }));
+
+    const files = Object.fromEntries(fileNames.map((name, i) => [name, contents[i]]));
+    return { backup: decodeShardedBackup(manifest, files, includeImages), manifest, legacy: false };
+  }
+
+  if (!names.includes(LEGACY_BACKUP_FILENAME)) {
+    return { backup: parseBackup([]), manifest: null, legacy: false };
+  }
+
+  const content = await source.read(LEGACY_BACKUP_FILENAME);
+  return { backup: parseLegacyBackup(content || ''), manifest: null, legacy: true };
+}
+
+function parseLegacyBackup(content: string): BackupFile {
+  // Check if content is empty or invalid
+  if (!content || content.trim() === '') {
+    console.warn('Backup content is empty');
+    return parseBackup([]);
+  }
+
+  // Check if content is HTML instead of JSON (common error)
+  if (content.trim().startsWith('<!DOCTYPE') || content.trim().startsWith('<html')) {
+    throw new Error('雲端資料格式錯誤（保存了 HTML 而不是 JSON）。請刪除雲端的備份並重新上傳。');
+  }
+
+  // Check content size
+  const sizeInMB = new Blob([content]).size / (1024 * 1024);
+  console.log(`Downloading ${sizeInMB.toFixed(2)} MB of legacy backup`);
+
+  // Try to parse JSON with better error handling
+  try {
+    const parsedData = JSON.parse(content);
+
+    // Validate the backup structure (array for legacy backups)
+    try {
+      return parseBackup(parsedData);
+    } catch {
+      throw new Error('下載的資料格式不正確（應該是備份物件或陣列）');
+    }
+  } catch (parseError: any) {
+    // Provide detailed error information
+    console.error('JSON parse error:', parseError);
+    console.error('Content length:', content.length);
+    console.error('Content preview (first 200 chars):', content.substring(0, 200));
+    console.error('Content preview (last 200 chars):', content.substring(Math.max(0, content.length - 200)));
+
+    if (parseError.message.includes('下載的資料格式不正確')) {
+      throw parseError;
+    }
+
+    // Check if JSON was truncated
+    if (parseError.message.includes('Unterminated') || parseError.message.includes('Unexpected end')) {
+      throw new Error('下載的資料不完整，可能在上傳時被截斷。請重新上傳資料到雲端。');
+    }
+
+    throw new Error(`下載的資料格式錯誤：${parseError.message}`);
+  }
+}
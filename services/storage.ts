@@ -1,11 +1,60 @@
-
-import { StickerSet } from '../types';
+import { SetImage, StickerItem, StickerSet } from '../types';
+import { sha256Hex } from '../utils/hash';
+import { dataUrlToBlob } from '../utils/dataUrl';
 
 const DB_NAME = 'StickerAtelierDB';
 const STORE_NAME = 'sticker_sets';
-const DB_VERSION = 1;
+const ORIGINALS_STORE_NAME = 'original_images';
+const IMAGES_STORE_NAME = 'images';
+const SYNC_BASE_STORE_NAME = 'sync_base';
+const SETTINGS_STORE_NAME = 'settings';
+const SNAPSHOTS_STORE_NAME = 'snapshots';
+const DRAFTS_STORE_NAME = 'drafts';
+const DB_VERSION = 7;
 
-const openDB = (): Promise<IDBDatabase> => {
+// Snapshot retention: the newest SNAPSHOT_MIN_KEEP are always kept,
+// older ones go once there are more than SNAPSHOT_LIMIT or they pass SNAPSHOT_MAX_AGE
+const SNAPSHOT_LIMIT = 20;
+const SNAPSHOT_MIN_KEEP = 5;
+const SNAPSHOT_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+export interface ImageRecord {
+  id: string; // SHA-256 of the blob content
+  blob: Blob;
+  refCount?: number; // Number of item slots referencing this blob
+}
+
+/** Operation that triggered a snapshot */
+export type SnapshotReason = 'compress' | 'import' | 'download' | 'delete' | 'restore';
+
+/**
+ * Copy of all sets taken before a destructive operation
+ * Images are shared with the live data and counted as references, so a snapshot only stores set records
+ */
+export interface SnapshotRecord {
+  id: string;
+  createdAt: number;
+  reason: SnapshotReason;
+  detail?: string; // e.g. the title of the deleted set
+  sets: StickerSet[];
+}
+
+/**
+ * Unsaved editor state of one set, autosaved so it survives a reload
+ * Its images count as references like those of saved sets
+ */
+export interface DraftRecord {
+  id: string; // Set id
+  savedAt: number;
+  set: StickerSet;
+  /** Images only reachable through undo/redo or trimmed items, kept alive while the editor is open */
+  retainedImages?: SetImage[];
+}
+
+type BlobStoreName = typeof IMAGES_STORE_NAME | typeof ORIGINALS_STORE_NAME;
+type ImageRefs = Record<BlobStoreName, Map<string, number>>;
+
+const openConnection = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
 
@@ -14,10 +63,42 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: 'id' });
       }
+      // v2: lossless originals, kept apart from the compressed previews
+      if (!db.objectStoreNames.contains(ORIGINALS_STORE_NAME)) {
+        db.createObjectStore(ORIGINALS_STORE_NAME, { keyPath: 'id' });
+      }
+      // v3: previews as blobs, moved out of the sticker_sets records
+      // (the data itself is moved by migrateInlineImages once the upgrade is done,
+      // since hashing is async and would let the versionchange transaction commit)
+      if (!db.objectStoreNames.contains(IMAGES_STORE_NAME)) {
+        db.createObjectStore(IMAGES_STORE_NAME, { keyPath: 'id' });
+      }
+      // v4: sets as of the last cloud sync, the common ancestor for three-way merges
+      if (!db.objectStoreNames.contains(SYNC_BASE_STORE_NAME)) {
+        db.createObjectStore(SYNC_BASE_STORE_NAME, { keyPath: 'id' });
+      }
+      // v5: values localStorage can't hold (e.g. file system handles)
+      if (!db.objectStoreNames.contains(SETTINGS_STORE_NAME)) {
+        db.createObjectStore(SETTINGS_STORE_NAME, { keyPath: 'key' });
+      }
+      // v6: local snapshots taken before destructive operations
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE_NAME)) {
+        db.createObjectStore(SNAPSHOTS_STORE_NAME, { keyPath: 'id' });
+      }
+      // v7: autosaved editor drafts
+      if (!db.objectStoreNames.contains(DRAFTS_STORE_NAME)) {
+        db.createObjectStore(DRAFTS_STORE_NAME, { keyPath: 'id' });
+      }
     };
 
     request.onsuccess = (event) => {
-      resolve((event.target as IDBOpenDBRequest).result);
+      const db = (event.target as IDBOpenDBRequest).result;
+      // Let a newer version in another tab upgrade the schema
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
     };
 
     request.onerror = (event) => {
@@ -26,45 +107,257 @@ const openDB = (): Promise<IDBDatabase> => {
   });
 };
 
-export const saveStickerSet = async (set: StickerSet): Promise<void> => {
-  const db = await openDB();
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the database once and makes sure legacy inline images are migrated
+ */
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openConnection()
+      .then(async (db) => {
+        await migrateInlineImages(db);
+        // Reconcile counts and drop blobs left behind by abandoned edits
+        await sweepImages(db);
+        return db;
+      })
+      .catch((err) => {
+        dbPromise = null;
+        throw err;
+      });
+  }
+  return dbPromise;
+};
+
+/**
+ * Moves base64 `imageUrl` previews from set records into the images store.
+ * Also used to normalize legacy backups on import and download.
+ */
+export const extractInlineImages = async (sets: StickerSet[]): Promise<{ sets: StickerSet[]; images: ImageRecord[] }> => {
+  const images = new Map<string, ImageRecord>();
+
+  const converted = await Promise.all(sets.map(async (set) => {
+    if (!set.items.some(item => item.imageUrl)) return set;
+
+    const items = await Promise.all(set.items.map(async (item) => {
+      if (!item.imageUrl) return item;
+
+      const { imageUrl, ...rest } = item;
+      const blob = dataUrlToBlob(imageUrl);
+      const id = await sha256Hex(blob);
+      images.set(id, { id, blob });
+      return { ...rest, imageId: id };
+    }));
+    return { ...set, items };
+  }));
+
+  return { sets: converted, images: Array.from(images.values()) };
+};
+
+const migrateInlineImages = async (db: IDBDatabase): Promise<void> => {
+  const sets = await new Promise<StickerSet[]>((resolve, reject) => {
+    const request = db.transaction([STORE_NAME], 'readonly').objectStore(STORE_NAME).getAll();
+    request.onsuccess = () => resolve(request.result as StickerSet[]);
+    request.onerror = () => reject(request.error);
+  });
+
+  const legacySets = sets.filter(set => set.items.some(item => item.imageUrl));
+  if (legacySets.length === 0) return;
+
+  console.log(`[儲存] 正在遷移 ${legacySets.length} 個貼圖集的圖片到 images store`);
+  const { sets: migratedSets, images } = await extractInlineImages(legacySets);
+
+  // Images and the updated sets are written together, so an interrupted
+  // migration leaves the old inline data in place and simply runs again
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(set);
+    const transaction = db.transaction([STORE_NAME, IMAGES_STORE_NAME], 'readwrite');
+    const imageStore = transaction.objectStore(IMAGES_STORE_NAME);
+    const setStore = transaction.objectStore(STORE_NAME);
+
+    images.forEach(record => imageStore.put(record));
+    migratedSets.forEach(set => setStore.put(set));
 
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
   });
 };
 
-export const saveStickerSets = async (sets: StickerSet[]): Promise<void> => {
+// --- Reference counting ---
+
+/**
+ * Every image a set references: its items, then the main and tab images
+ */
+export const setImageRefs = (set: StickerSet): (StickerItem | SetImage)[] =>
+  [...set.items, set.mainImage, set.tabImage].filter(Boolean);
+
+const emptyRefs = (): ImageRefs => ({
+  [IMAGES_STORE_NAME]: new Map(),
+  [ORIGINALS_STORE_NAME]: new Map()
+});
+
+/**
+ * Adds the image references of the given sets to `refs` (multiplied by `sign`)
+ */
+const countRefs = (sets: (StickerSet | undefined)[], sign: 1 | -1 = 1, refs: ImageRefs = emptyRefs()): ImageRefs =>
+  countImageRefs(sets.flatMap(set => (set ? setImageRefs(set) : [])), sign, refs);
+
+/**
+ * Adds the given image references to `refs` (multiplied by `sign`)
+ */
+const countImageRefs = (
+  images: (StickerItem | SetImage)[],
+  sign: 1 | -1 = 1,
+  refs: ImageRefs = emptyRefs()
+): ImageRefs => {
+  const add = (storeName: BlobStoreName, id?: string) => {
+    if (!id) return;
+    const counts = refs[storeName];
+    counts.set(id, (counts.get(id) || 0) + sign);
+  };
+
+  images.forEach(image => {
+    add(IMAGES_STORE_NAME, image.imageId);
+    add(ORIGINALS_STORE_NAME, image.originalId);
+  });
+  return refs;
+};
+
+// Everything a draft keeps alive: its set and what undo/redo can bring back
+const draftImageRefs = (draft?: DraftRecord): (StickerItem | SetImage)[] =>
+  draft ? [...setImageRefs(draft.set), ...(draft.retainedImages || [])] : [];
+
+/**
+ * Applies reference deltas inside an open transaction.
+ * Blobs whose count drops to zero are deleted right away.
+ */
+const applyRefDeltas = (transaction: IDBTransaction, deltas: ImageRefs) => {
+  (Object.keys(deltas) as BlobStoreName[]).forEach(storeName => {
+    const store = transaction.objectStore(storeName);
+    deltas[storeName].forEach((delta, id) => {
+      if (delta === 0) return;
+      const request = store.get(id);
+      request.onsuccess = () => {
+        const record = request.result as ImageRecord | undefined;
+        if (!record) return;
+        const refCount = (record.refCount || 0) + delta;
+        if (refCount <= 0) {
+          store.delete(id);
+        } else {
+          store.put({ ...record, refCount });
+        }
+      };
+    });
+  });
+};
+
+/**
+ * Writes sets (or deletes them when `next` is undefined) and keeps image
+ * reference counts in sync within the same transaction
+ */
+// Bumped as soon as a write to the sets store starts, so a long operation (a sync)
+// can tell that sets changed while it was waiting on the network or the user
+let setsGeneration = 0;
+
+export const getSetsGeneration = (): number => setsGeneration;
+
+const writeSetsWithRefs = async (
+  changes: { id: string; next?: StickerSet }[]
+): Promise<void> => {
+  setsGeneration++;
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const transaction = db.transaction([STORE_NAME, IMAGES_STORE_NAME, ORIGINALS_STORE_NAME], 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    
-    if (sets.length === 0) {
+    const deltas = emptyRefs();
+    let pending = changes.length;
+
+    if (pending === 0) {
       resolve();
       return;
     }
 
-    sets.forEach(set => {
-      store.put(set);
+    changes.forEach(({ id, next }) => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        const previous = request.result as StickerSet | undefined;
+        countRefs([previous], -1, deltas);
+        countRefs([next], 1, deltas);
+
+        if (next) {
+          store.put(next);
+        } else {
+          store.delete(id);
+        }
+
+        // All previous versions are known: adjust the counts once
+        pending--;
+        if (pending === 0) {
+          applyRefDeltas(transaction, deltas);
+        }
+      };
     });
 
     // Critical fix: Only resolve when the entire transaction is complete
-    transaction.oncomplete = () => {
-      resolve();
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error("Transaction error in writeSetsWithRefs:", transaction.error);
+      reject(transaction.error);
     };
+  });
+};
 
-    transaction.onerror = (event) => {
-      console.error("Transaction error in saveStickerSets:", transaction.error);
-      reject(transaction.error);
+/**
+ * Recomputes every reference count from the stored sets, snapshots and drafts and deletes
+ * blobs nothing points to (e.g. uploads from an editor session that was never saved)
+ */
+const sweepImages = (db: IDBDatabase): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, SNAPSHOTS_STORE_NAME, DRAFTS_STORE_NAME, IMAGES_STORE_NAME, ORIGINALS_STORE_NAME], 'readwrite');
+    const setsRequest = transaction.objectStore(STORE_NAME).getAll();
+    const snapshotsRequest = transaction.objectStore(SNAPSHOTS_STORE_NAME).getAll();
+    const request = transaction.objectStore(DRAFTS_STORE_NAME).getAll();
+
+    // Requests complete in order: sets and snapshots are known once the drafts are
+    request.onsuccess = () => {
+      const refs = countRefs([
+        ...(setsRequest.result as StickerSet[]),
+        ...(snapshotsRequest.result as SnapshotRecord[]).flatMap(snapshot => snapshot.sets)
+      ]);
+      countImageRefs((request.result as DraftRecord[]).flatMap(draftImageRefs), 1, refs);
+
+      (Object.keys(refs) as BlobStoreName[]).forEach(storeName => {
+        const cursorRequest = transaction.objectStore(storeName).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+
+          const record = cursor.value as ImageRecord;
+          const refCount = refs[storeName].get(record.id) || 0;
+          if (refCount === 0) {
+            cursor.delete();
+          } else if (record.refCount !== refCount) {
+            cursor.update({ ...record, refCount });
+          }
+          cursor.continue();
+        };
+      });
     };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
   });
 };
 
+// --- Sticker sets ---
+
+export const saveStickerSet = async (set: StickerSet): Promise<void> => {
+  return writeSetsWithRefs([{ id: set.id, next: set }]);
+};
+
+export const saveStickerSets = async (sets: StickerSet[]): Promise<void> => {
+  return writeSetsWithRefs(sets.map(set => ({ id: set.id, next: set })));
+};
+
 export const getAllStickerSets = async (): Promise<StickerSet[]> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
@@ -86,21 +379,34 @@ export const getAllStickerSets = async (): Promise<StickerSet[]> => {
   });
 };
 
-export const deleteStickerSet = async (id: string): Promise<void> => {
+export const getStickerSet = async (id: string): Promise<StickerSet | undefined> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(id);
-
-    transaction.oncomplete = () => resolve();
-    transaction.onerror = () => reject(request.error);
+    const request = db.transaction([STORE_NAME], 'readonly').objectStore(STORE_NAME).get(id);
+    request.onsuccess = () => resolve(request.result as StickerSet | undefined);
+    request.onerror = () => reject(request.error);
   });
 };
 
+export const deleteStickerSet = async (id: string): Promise<void> => {
+  // Images only used by this set are released in the same transaction
+  return writeSetsWithRefs([{ id }]);
+};
+
+/**
+ * Saves and deletes sets in a single transaction (used to apply a sync merge)
+ */
+export const applyStickerSetChanges = async (saved: StickerSet[], deletedIds: string[]): Promise<void> => {
+  return writeSetsWithRefs([
+    ...saved.map(set => ({ id: set.id, next: set })),
+    ...deletedIds.map(id => ({ id }))
+  ]);
+};
+
 export const clearAllStickerSets = async (): Promise<void> => {
+  setsGeneration++;
   const db = await openDB();
-  return new Promise((resolve, reject) => {
+  await new Promise<void>((resolve, reject) => {
     const transaction = db.transaction([STORE_NAME], 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
     const request = store.clear();
@@ -109,4 +415,314 @@ export const clearAllStickerSets = async (): Promise<void> => {
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(request.error);
   });
+  await sweepImages(db);
+};
+
+// --- Sync base ---
+// Only the set records are kept: image ids are compared, blobs are not needed
+
+export const getSyncBase = async (): Promise<StickerSet[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([SYNC_BASE_STORE_NAME], 'readonly').objectStore(SYNC_BASE_STORE_NAME).getAll();
+    request.onsuccess = () => resolve(request.result as StickerSet[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Replaces the whole base after a successful sync (pass [] to forget it)
+ */
+export const replaceSyncBase = async (sets: StickerSet[]): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SYNC_BASE_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(SYNC_BASE_STORE_NAME);
+    store.clear();
+    sets.forEach(set => store.put(set));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// --- Snapshots ---
+
+/**
+ * Snapshots the retention policy drops
+ * @param snapshots - Sorted newest first
+ */
+const expiredSnapshots = (snapshots: SnapshotRecord[], now: number): SnapshotRecord[] =>
+  snapshots.filter((snapshot, index) =>
+    index >= SNAPSHOT_MIN_KEEP && (index >= SNAPSHOT_LIMIT || now - snapshot.createdAt > SNAPSHOT_MAX_AGE)
+  );
+
+/**
+ * Copies all current sets into a new snapshot and applies the retention policy
+ * @returns null when there is nothing to snapshot
+ */
+export const createSnapshot = async (reason: SnapshotReason, detail?: string): Promise<SnapshotRecord | null> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, SNAPSHOTS_STORE_NAME, IMAGES_STORE_NAME, ORIGINALS_STORE_NAME], 'readwrite');
+    const snapshotStore = transaction.objectStore(SNAPSHOTS_STORE_NAME);
+    const setsRequest = transaction.objectStore(STORE_NAME).getAll();
+    const snapshotsRequest = snapshotStore.getAll();
+    let snapshot: SnapshotRecord | null = null;
+
+    snapshotsRequest.onsuccess = () => {
+      const sets = setsRequest.result as StickerSet[];
+      if (sets.length === 0) return;
+
+      const now = Date.now();
+      snapshot = { id: `${now}`, createdAt: now, reason, detail, sets };
+      const snapshots = [snapshot, ...(snapshotsRequest.result as SnapshotRecord[])]
+        .sort((a, b) => b.createdAt - a.createdAt);
+      const expired = expiredSnapshots(snapshots, now);
+
+      snapshotStore.put(snapshot);
+      expired.forEach(old => snapshotStore.delete(old.id));
+
+      const deltas = countRefs(sets);
+      countRefs(expired.flatMap(old => old.sets), -1, deltas);
+      applyRefDeltas(transaction, deltas);
+    };
+
+    transaction.oncomplete = () => resolve(snapshot);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * All snapshots, newest first
+ */
+export const getSnapshots = async (): Promise<SnapshotRecord[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([SNAPSHOTS_STORE_NAME], 'readonly').objectStore(SNAPSHOTS_STORE_NAME).getAll();
+    request.onsuccess = () => resolve((request.result as SnapshotRecord[]).sort((a, b) => b.createdAt - a.createdAt));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Deletes a snapshot and releases the images only it was keeping
+ */
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SNAPSHOTS_STORE_NAME, IMAGES_STORE_NAME, ORIGINALS_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(SNAPSHOTS_STORE_NAME);
+    const request = store.get(id);
+
+    request.onsuccess = () => {
+      const snapshot = request.result as SnapshotRecord | undefined;
+      if (!snapshot) return;
+      store.delete(id);
+      applyRefDeltas(transaction, countRefs(snapshot.sets, -1));
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// --- Drafts ---
+
+/**
+ * Writes or deletes (when `set` is undefined) the draft of a set, adjusting image references
+ */
+const writeDraft = async (id: string, set?: StickerSet, retainedImages?: SetImage[]): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([DRAFTS_STORE_NAME, IMAGES_STORE_NAME, ORIGINALS_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(DRAFTS_STORE_NAME);
+    const request = store.get(id);
+
+    request.onsuccess = () => {
+      const previous = request.result as DraftRecord | undefined;
+      const next: DraftRecord | undefined = set && { id, savedAt: Date.now(), set, retainedImages };
+      if (next) {
+        store.put(next);
+      } else if (previous) {
+        store.delete(id);
+      }
+
+      const deltas = countImageRefs(draftImageRefs(previous), -1);
+      countImageRefs(draftImageRefs(next), 1, deltas);
+      applyRefDeltas(transaction, deltas);
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * @param retainedImages - Images the editor's undo/redo history or trimmed items still point at
+ */
+export const saveDraft = (set: StickerSet, retainedImages?: SetImage[]): Promise<void> =>
+  writeDraft(set.id, set, retainedImages);
+
+export const deleteDraft = (id: string): Promise<void> => writeDraft(id);
+
+export const getDraft = async (id: string): Promise<DraftRecord | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([DRAFTS_STORE_NAME], 'readonly').objectStore(DRAFTS_STORE_NAME).get(id);
+    request.onsuccess = () => resolve(request.result as DraftRecord | undefined);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// --- Settings ---
+
+export const getSetting = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([SETTINGS_STORE_NAME], 'readonly').objectStore(SETTINGS_STORE_NAME).get(key);
+    request.onsuccess = () => resolve(request.result?.value as T | undefined);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Stores a structured-cloneable value (pass undefined to delete it)
+ */
+export const putSetting = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SETTINGS_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(SETTINGS_STORE_NAME);
+    if (value === undefined) {
+      store.delete(key);
+    } else {
+      store.put({ key, value });
+    }
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// --- Image blobs (content-addressed) ---
+
+const putBlobs = async (storeName: string, records: ImageRecord[]): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readwrite');
+    const store = transaction.objectStore(storeName);
+
+    // Content-addressed: an existing blob is identical, only new ones are written
+    // (starting unreferenced until a set that uses them is saved)
+    records.forEach(record => {
+      const request = store.getKey(record.id);
+      request.onsuccess = () => {
+        if (request.result === undefined) {
+          store.put({ id: record.id, blob: record.blob, refCount: 0 });
+        }
+      };
+    });
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Total size of the stored blobs, each unique image counted once
+ */
+export const getImageStorageStats = async (): Promise<{ bytes: number; imageCount: number }> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([IMAGES_STORE_NAME, ORIGINALS_STORE_NAME], 'readonly');
+    const stats = { bytes: 0, imageCount: 0 };
+
+    [IMAGES_STORE_NAME, ORIGINALS_STORE_NAME].forEach(storeName => {
+      const cursorRequest = transaction.objectStore(storeName).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        stats.bytes += (cursor.value as ImageRecord).blob.size;
+        if (storeName === IMAGES_STORE_NAME) stats.imageCount++;
+        cursor.continue();
+      };
+    });
+
+    transaction.oncomplete = () => resolve(stats);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const getBlob = async (storeName: string, id: string): Promise<Blob | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readonly');
+    const store = transaction.objectStore(storeName);
+    const request = store.get(id);
+
+    request.onsuccess = () => {
+      const record = request.result as ImageRecord | undefined;
+      resolve(record?.blob);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getBlobs = async (storeName: string, ids: string[]): Promise<ImageRecord[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readonly');
+    const store = transaction.objectStore(storeName);
+    const records: ImageRecord[] = [];
+
+    ids.forEach(id => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (request.result) records.push(request.result as ImageRecord);
+      };
+    });
+
+    transaction.oncomplete = () => resolve(records);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Stores a preview image blob and returns its content-addressed id
+ */
+export const saveImage = async (blob: Blob): Promise<string> => {
+  const id = await sha256Hex(blob);
+  await putBlobs(IMAGES_STORE_NAME, [{ id, blob }]);
+  return id;
+};
+
+export const saveImages = (records: ImageRecord[]): Promise<void> => putBlobs(IMAGES_STORE_NAME, records);
+
+export const getImage = (id: string): Promise<Blob | undefined> => getBlob(IMAGES_STORE_NAME, id);
+
+export const getImages = (ids: string[]): Promise<ImageRecord[]> => getBlobs(IMAGES_STORE_NAME, ids);
+
+/**
+ * Stores an original image blob and returns its content-addressed id
+ */
+export const saveOriginalImage = async (blob: Blob): Promise<string> => {
+  const id = await sha256Hex(blob);
+  await putBlobs(ORIGINALS_STORE_NAME, [{ id, blob }]);
+  return id;
+};
+
+export const saveOriginalImages = (records: ImageRecord[]): Promise<void> => putBlobs(ORIGINALS_STORE_NAME, records);
+
+export const getOriginalImage = (id: string): Promise<Blob | undefined> => getBlob(ORIGINALS_STORE_NAME, id);
+
+export const getOriginalImages = (ids: string[]): Promise<ImageRecord[]> => getBlobs(ORIGINALS_STORE_NAME, ids);
+
+/**
+ * Full-quality source of an item or set image: the lossless original when there is one,
+ * otherwise the preview
+ */
+export const getSourceImage = async (image: StickerItem | SetImage): Promise<Blob | undefined> => {
+  const original = image.originalId ? await getOriginalImage(image.originalId) : undefined;
+  return original ?? (image.imageId ? await getImage(image.imageId) : undefined);
 };
@@ -0,0 +1,135 @@
+import { SyncBackend } from './types';
+import { getSetting, putSetting } from '../storage';
+import { MANIFEST_FILENAME } from '../shardedBackup';
+
+const FOLDER_NAME_KEY = 'latelier_sync_folder';
+const FOLDER_HANDLE_SETTING = 'sync_folder_handle';
+
+// Parts of the File System Access API that lib.dom does not declare yet
+type PermissionMode = { mode: 'readwrite' };
+
+interface PersistentDirectoryHandle extends FileSystemDirectoryHandle {
+  values(): AsyncIterableIterator<FileSystemHandle>;
+  queryPermission(options: PermissionMode): Promise<PermissionState>;
+  requestPermission(options: PermissionMode): Promise<PermissionState>;
+}
+
+type DirectoryPicker = (options?: { mode?: 'read' | 'readwrite'; id?: string }) => Promise<FileSystemDirectoryHandle>;
+
+const isNotFound = (error: unknown) => error instanceof DOMException && error.name === 'NotFoundError';
+
+/**
+ * Local folder backend (File System Access API, Chromium-based browsers)
+ * Pointing it at a Dropbox / Drive / NAS folder gives sync without an account in the app
+ */
+export class FolderBackend implements SyncBackend {
+  readonly id = 'folder' as const;
+  readonly atomicWrites = false;
+
+  private handle: PersistentDirectoryHandle | null = null;
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+  }
+
+  isConfigured(): boolean {
+    return !!localStorage.getItem(FOLDER_NAME_KEY);
+  }
+
+  describe(): string {
+    return localStorage.getItem(FOLDER_NAME_KEY) || '';
+  }
+
+  /**
+   * Lets the user pick the target folder (must be called from a click handler)
+   */
+  async chooseFolder(): Promise<string> {
+    const picker = (window as unknown as { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker;
+    if (!picker) {
+      throw new Error('這個瀏覽器不支援資料夾存取，請使用 Chrome 或 Edge');
+    }
+
+    const handle = await picker({ mode: 'readwrite', id: 'latelier-sync' }) as PersistentDirectoryHandle;
+    await putSetting(FOLDER_HANDLE_SETTING, handle);
+    localStorage.setItem(FOLDER_NAME_KEY, handle.name);
+    this.handle = handle;
+    return handle.name;
+  }
+
+  async disconnect(): Promise<void> {
+    this.handle = null;
+    localStorage.removeItem(FOLDER_NAME_KEY);
+    await putSetting(FOLDER_HANDLE_SETTING, undefined);
+  }
+
+  async list(): Promise<string[]> {
+    const handle = await this.getHandle();
+    const names: string[] = [];
+    for await (const entry of handle.values()) {
+      if (entry.kind === 'file') names.push(entry.name);
+    }
+    return names;
+  }
+
+  async read(name: string): Promise<string | null> {
+    const file = await this.getFile(name);
+    return file ? file.text() : null;
+  }
+
+  async write(files: Record<string, string>): Promise<void> {
+    const handle = await this.getHandle();
+    await Promise.all(Object.entries(files).map(async ([name, content]) => {
+      const fileHandle = await handle.getFileHandle(name, { create: true });
+      const writable = await fileHandle.createWritable();
+      await writable.write(content);
+      await writable.close();
+    }));
+  }
+
+  async delete(names: string[]): Promise<void> {
+    const handle = await this.getHandle();
+    await Promise.all(names.map(name => handle.removeEntry(name).catch(error => {
+      if (!isNotFound(error)) throw error;
+    })));
+  }
+
+  /**
+   * The manifest is rewritten on every upload, so its timestamp tracks the folder content
+   */
+  async revision(): Promise<string | null> {
+    const file = await this.getFile(MANIFEST_FILENAME);
+    return file ? `${file.lastModified}-${file.size}` : null;
+  }
+
+  private async getFile(name: string): Promise<File | null> {
+    const handle = await this.getHandle();
+    try {
+      return await (await handle.getFileHandle(name)).getFile();
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Restores the stored handle and makes sure we may still write to it
+   * Browsers drop the permission between sessions; asking again needs a user gesture
+   */
+  private async getHandle(): Promise<PersistentDirectoryHandle> {
+    if (!this.handle) {
+      this.handle = (await getSetting<PersistentDirectoryHandle>(FOLDER_HANDLE_SETTING)) || null;
+    }
+    if (!this.handle) {
+      throw new Error('尚未選擇同步資料夾');
+    }
+
+    const mode: PermissionMode = { mode: 'readwrite' };
+    if (await this.handle.queryPermission(mode) !== 'granted') {
+      const permission = await this.handle.requestPermission(mode).catch(() => 'denied' as PermissionState);
+      if (permission !== 'granted') {
+        throw new Error('沒有同步資料夾的存取權限，請按「同步」重新授權');
+      }
+    }
+    return this.handle;
+  }
+}
@@ -0,0 +1,307 @@
+import { BackendRevision, SyncBackend } from './types';
+import { BackupSource } from '../shardedBackup';
+
+const GIST_ID_KEY = 'latelier_gist_id';
+const GITHUB_TOKEN_KEY = 'latelier_github_token';
+const GIST_DESCRIPTION = "L'Atelier de Stickers - Backup";
+
+interface GistFile {
+  content: string;
+  truncated: boolean;
+  raw_url: string;
+}
+
+/**
+ * Returns the full content of a gist file
+ * The API truncates large files, which then have to be fetched from raw_url
+ */
+const readGistFile = async (file: GistFile): Promise<string> => {
+  if (!file.truncated) {
+    return file.content;
+  }
+
+  // Note: Do NOT include Authorization header for raw_url to avoid CORS issues
+  // The raw_url itself contains the necessary access credentials
+  const rawResponse = await fetch(file.raw_url);
+  if (!rawResponse.ok) {
+    throw new Error(`無法獲取完整內容 (HTTP ${rawResponse.status})`);
+  }
+  return rawResponse.text();
+};
+
+/**
+ * GitHub Gist backend
+ * The whole backup lives in one private gist, found again by its description on other devices
+ */
+export class GistBackend implements SyncBackend {
+  readonly id = 'gist' as const;
+  readonly maxFileSize = 10 * 1024 * 1024; // GitHub Gist has 10MB limit per file
+  readonly atomicWrites = true;
+
+  private token: string | null = null;
+  private gistId: string | null = null;
+  // Files of the last fetched gist, reused by read() until the next write
+  private files: Record<string, GistFile> | null = null;
+
+  constructor() {
+    // Load saved token and gist ID from localStorage
+    this.token = localStorage.getItem(GITHUB_TOKEN_KEY);
+    this.gistId = localStorage.getItem(GIST_ID_KEY);
+  }
+
+  isConfigured(): boolean {
+    return !!this.token;
+  }
+
+  describe(): string {
+    return 'GitHub Gist';
+  }
+
+  /**
+   * Login with GitHub Personal Access Token
+   */
+  async login(token: string): Promise<void> {
+    // Validate token by making a test API call
+    try {
+      const response = await fetch('https://api.github.com/user', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Accept': 'application/vnd.github.v3+json'
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error('Invalid GitHub token');
+      }
+
+      this.token = token;
+      localStorage.setItem(GITHUB_TOKEN_KEY, token);
+    } catch (error) {
+      throw new Error('GitHub 登入失敗：Token 無效或沒有權限');
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.token = null;
+    this.gistId = null;
+    this.files = null;
+    localStorage.removeItem(GITHUB_TOKEN_KEY);
+    localStorage.removeItem(GIST_ID_KEY);
+  }
+
+  async list(): Promise<string[]> {
+    const files = await this.fetchFiles();
+    return Object.keys(files);
+  }
+
+  async read(name: string): Promise<string | null> {
+    const files = this.files || await this.fetchFiles();
+    const file = files[name];
+    return file ? readGistFile(file) : null;
+  }
+
+  async write(files: Record<string, string>): Promise<void> {
+    const entries = Object.entries(files);
+    if (entries.length === 0) return;
+
+    await this.ensureGistId();
+    try {
+      if (this.gistId) {
+        await this.updateGist(Object.fromEntries(entries.map(([name, content]) => [name, { content }])));
+      } else {
+        await this.createGist(files);
+      }
+    } catch (error: any) {
+      // Check if error is related to size or content
+      if (error.message && error.message.includes('too large')) {
+        throw new Error('上傳失敗：資料超過 GitHub 限制，請減少貼圖集數量');
+      }
+      throw error;
+    }
+  }
+
+  async delete(names: string[]): Promise<void> {
+    await this.ensureGistId();
+    if (!this.gistId || names.length === 0) return;
+    await this.updateGist(Object.fromEntries(names.map(name => [name, null])));
+  }
+
+  /**
+   * Version hash of the latest gist commit
+   */
+  async revision(): Promise<string | null> {
+    await this.ensureGistId();
+    if (!this.gistId) return null;
+
+    const response = await this.request(`https://api.github.com/gists/${this.gistId}/commits?per_page=1`);
+    if (!response) return null;
+    const commits = await response.json();
+    return commits[0]?.version ?? null;
+  }
+
+  /**
+   * Gist commits, newest first
+   */
+  async listRevisions(page: number, perPage: number): Promise<BackendRevision[]> {
+    await this.ensureGistId();
+    if (!this.gistId) return [];
+
+    const response = await this.request(`https://api.github.com/gists/${this.gistId}/commits?per_page=${perPage}&page=${page}`);
+    if (!response) return [];
+    const commits: { version: string; committed_at: string }[] = await response.json();
+    return commits.map(commit => ({ id: commit.version, createdAt: new Date(commit.committed_at) }));
+  }
+
+  async openRevision(id: string): Promise<BackupSource> {
+    await this.ensureGistId();
+    const response = this.gistId ? await this.request(`https://api.github.com/gists/${this.gistId}/${id}`) : null;
+    if (!response) {
+      throw new Error('找不到這個版本的 Gist');
+    }
+
+    const files: Record<string, GistFile> = (await response.json()).files || {};
+    return {
+      list: async () => Object.keys(files),
+      read: async (name) => (files[name] ? readGistFile(files[name]) : null)
+    };
+  }
+
+  /**
+   * Authenticated GET; resolves to null (and forgets the gist) when it no longer exists
+   */
+  private async request(url: string): Promise<Response | null> {
+    if (!this.token) {
+      throw new Error('未登入 GitHub');
+    }
+
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Accept': 'application/vnd.github.v3+json'
+      }
+    });
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        // Gist not found, clear stored ID
+        this.gistId = null;
+        this.files = null;
+        localStorage.removeItem(GIST_ID_KEY);
+        return null;
+      }
+      if (response.status === 401) {
+        throw new Error('Token 已過期，請重新登入');
+      }
+      if (response.status === 403) {
+        throw new Error('Token 權限不足，請確認已勾選「gist」權限');
+      }
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return response;
+  }
+
+  private async fetchFiles(): Promise<Record<string, GistFile>> {
+    await this.ensureGistId();
+    if (!this.gistId) return {};
+
+    const response = await this.request(`https://api.github.com/gists/${this.gistId}`);
+    const gist = response ? await response.json() : null;
+    this.files = gist?.files || {};
+    return this.files!;
+  }
+
+  /**
+   * If no gist ID is stored, try to find it by searching user's gists
+   */
+  private async ensureGistId(): Promise<void> {
+    if (!this.gistId) {
+      await this.findGistByDescription();
+    }
+  }
+
+  /**
+   * Search for the backup gist by description
+   * This allows devices to find the same gist even without the stored ID
+   */
+  private async findGistByDescription(): Promise<void> {
+    if (!this.token) return;
+
+    // Fetch user's gists
+    const response = await fetch('https://api.github.com/gists', {
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Accept': 'application/vnd.github.v3+json'
+      }
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('Token 已過期或無效，請重新登入');
+      } else if (response.status === 403) {
+        throw new Error('Token 權限不足，請確認已勾選「gist」權限');
+      }
+      throw new Error(`無法取得 Gist 列表 (HTTP ${response.status})`);
+    }
+
+    const gists = await response.json();
+
+    // Find the gist with our backup description
+    const backupGist = gists.find((gist: any) => gist.description === GIST_DESCRIPTION);
+
+    if (backupGist) {
+      // Store the found gist ID
+      this.gistId = backupGist.id;
+      localStorage.setItem(GIST_ID_KEY, backupGist.id);
+    }
+  }
+
+  /**
+   * Create a new private gist
+   */
+  private async createGist(files: Record<string, string>): Promise<void> {
+    const response = await fetch('https://api.github.com/gists', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Accept': 'application/vnd.github.v3+json',
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        description: GIST_DESCRIPTION,
+        public: false,
+        files: Object.fromEntries(Object.entries(files).map(([name, content]) => [name, { content }]))
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to create gist');
+    }
+
+    const gist = await response.json();
+    this.gistId = gist.id;
+    this.files = null;
+    localStorage.setItem(GIST_ID_KEY, gist.id);
+  }
+
+  /**
+   * Update existing gist (null deletes a file)
+   */
+  private async updateGist(files: Record<string, { content: string } | null>): Promise<void> {
+    const response = await fetch(`https://api.github.com/gists/${this.gistId}`, {
+      method: 'PATCH',
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Accept': 'application/vnd.github.v3+json',
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ files })
+    });
+
+    this.files = null;
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to update gist');
+    }
+  }
+}
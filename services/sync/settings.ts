@@ -0,0 +1,30 @@
+import { SyncBackend, SyncBackendId } from './types';
+import { GistBackend } from './gistBackend';
+import { FolderBackend } from './folderBackend';
+import { WebDavBackend } from './webDavBackend';
+
+const SYNC_BACKEND_KEY = 'latelier_sync_backend';
+
+// Backends keep credentials and caches, so each one is created once
+export const gistBackend = new GistBackend();
+export const folderBackend = new FolderBackend();
+export const webDavBackend = new WebDavBackend();
+
+const backends: Record<SyncBackendId, SyncBackend> = {
+  gist: gistBackend,
+  folder: folderBackend,
+  webdav: webDavBackend
+};
+
+export function loadSyncBackendId(): SyncBackendId {
+  const stored = localStorage.getItem(SYNC_BACKEND_KEY) as SyncBackendId | null;
+  return stored && stored in backends ? stored : 'gist';
+}
+
+export function saveSyncBackendId(id: SyncBackendId): void {
+  localStorage.setItem(SYNC_BACKEND_KEY, id);
+}
+
+export function getSyncBackend(id: SyncBackendId = loadSyncBackendId()): SyncBackend {
+  return backends[id];
+}
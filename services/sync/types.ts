@@ -0,0 +1,41 @@
+import { BackupSource } from '../shardedBackup';
+
+export type SyncBackendId = 'gist' | 'folder' | 'webdav';
+
+/** A past version of the stored files */
+export interface BackendRevision {
+  id: string;
+  createdAt: Date;
+}
+
+/**
+ * Flat file storage holding the cloud backup
+ * The file layout itself is handled by shardedBackup; backends only move text files around
+ */
+export interface SyncBackend {
+  readonly id: SyncBackendId;
+  /** Largest file the target accepts, in bytes (undefined: no limit) */
+  readonly maxFileSize?: number;
+  /** Whether one write() call lands all files at once; otherwise the manifest is written last */
+  readonly atomicWrites: boolean;
+
+  /** Whether the target and credentials are set (does not check that they still work) */
+  isConfigured(): boolean;
+  /** Short description of the target, e.g. the folder name or server URL */
+  describe(): string;
+  /** Forgets the target and credentials */
+  disconnect(): Promise<void>;
+
+  list(): Promise<string[]>;
+  /** @returns null when the file does not exist */
+  read(name: string): Promise<string | null>;
+  write(files: Record<string, string>): Promise<void>;
+  delete(names: string[]): Promise<void>;
+  /** Opaque token that changes whenever the stored files change (null when empty or unknown) */
+  revision(): Promise<string | null>;
+
+  /** Past versions, newest first (only backends that keep history) */
+  listRevisions?(page: number, perPage: number): Promise<BackendRevision[]>;
+  /** Read-only access to the files as they were at a revision */
+  openRevision?(id: string): Promise<BackupSource>;
+}
@@ -0,0 +1,157 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebDavBackend } from './webDavBackend';
+
+const ROOT = 'https://dav.example.com/files/me/';
+const COLLECTION = `${ROOT}latelier/`;
+
+/**
+ * Minimal in-memory WebDAV server for one collection, answering the requests of WebDavBackend
+ */
+const createDavServer = () => {
+  const files = new Map<string, string>();
+  let collectionExists = true;
+  let etag = 0;
+  // Status returned to every PUT instead of storing the file, when set
+  let putStatus: number | undefined;
+
+  const multistatus = (entries: { href: string; isCollection: boolean; etag?: string }[]) =>
+    new Response(
+      `<?xml version="1.0"?><d:multistatus xmlns:d="DAV:">${entries.map(entry => `
+        <d:response><d:href>${entry.href}</d:href><d:propstat><d:prop>
+          <d:resourcetype>${entry.isCollection ? '<d:collection/>' : ''}</d:resourcetype>
+          ${entry.etag ? `<d:getetag>${entry.etag}</d:getetag>` : ''}
+        </d:prop></d:propstat></d:response>`).join('')}</d:multistatus>`,
+      { status: 207 }
+    );
+
+  const handle = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const path = new URL(url).pathname;
+    const collectionPath = new URL(COLLECTION).pathname;
+    const name = decodeURIComponent(path.slice(collectionPath.length));
+    const isCollection = path === collectionPath;
+
+    switch (init.method) {
+      case 'PROPFIND':
+        if (!collectionExists) return new Response(null, { status: 404 });
+        if (isCollection) {
+          return multistatus([
+            { href: collectionPath, isCollection: true },
+            ...Array.from(files.keys()).map(file => ({ href: `${collectionPath}${encodeURIComponent(file)}`, isCollection: false }))
+          ]);
+        }
+        return files.has(name)
+          ? multistatus([{ href: path, isCollection: false, etag: `"${etag}"` }])
+          : new Response(null, { status: 404 });
+      case 'GET':
+        return files.has(name) ? new Response(files.get(name)) : new Response(null, { status: 404 });
+      case 'PUT':
+        if (putStatus) return new Response(null, { status: putStatus });
+        // Like real servers, no intermediate collections are created
+        if (!collectionExists) return new Response(null, { status: 409 });
+        files.set(name, String(init.body));
+        etag++;
+        return new Response(null, { status: 201 });
+      case 'DELETE':
+        if (!files.delete(name)) return new Response(null, { status: 404 });
+        etag++;
+        return new Response(null, { status: 204 });
+      case 'MKCOL':
+        if (collectionExists) return new Response(null, { status: 405 });
+        collectionExists = true;
+        return new Response(null, { status: 201 });
+      default:
+        return new Response(null, { status: 405 });
+    }
+  };
+
+  return {
+    files,
+    fetch: vi.fn(handle),
+    removeCollection: () => {
+      collectionExists = false;
+      files.clear();
+    },
+    failPuts: (status: number) => {
+      putStatus = status;
+    }
+  };
+};
+
+describe('WebDavBackend', () => {
+  let server: ReturnType<typeof createDavServer>;
+  let backend: WebDavBackend;
+
+  beforeEach(() => {
+    localStorage.clear();
+    server = createDavServer();
+    vi.stubGlobal('fetch', server.fetch);
+    backend = new WebDavBackend();
+    backend.configure({ url: COLLECTION.slice(0, -1), username: 'me', password: 'secret' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('writes files and lists them by name', async () => {
+    await backend.write({ 'manifest.json': '{}', 'set-1.json': '{"id":"1"}' });
+
+    expect(server.files.get('set-1.json')).toBe('{"id":"1"}');
+    expect((await backend.list()).sort()).toEqual(['manifest.json', 'set-1.json']);
+  });
+
+  it('reads a file back, and null for a missing one', async () => {
+    await backend.write({ 'manifest.json': '{"version":1}' });
+
+    expect(await backend.read('manifest.json')).toBe('{"version":1}');
+    expect(await backend.read('images-0.json')).toBeNull();
+  });
+
+  it('deletes files, ignoring those already gone', async () => {
+    await backend.write({ 'a.json': 'a', 'b.json': 'b' });
+    await backend.delete(['a.json', 'missing.json']);
+
+    expect(await backend.list()).toEqual(['b.json']);
+  });
+
+  it('changes its revision when the manifest is rewritten', async () => {
+    expect(await backend.revision()).toBeNull();
+    await backend.write({ 'manifest.json': '{}' });
+    const first = await backend.revision();
+    await backend.write({ 'manifest.json': '{"sets":[]}' });
+
+    expect(first).not.toBeNull();
+    expect(await backend.revision()).not.toBe(first);
+  });
+
+  it('treats a missing collection as empty and creates it on the first write', async () => {
+    server.removeCollection();
+
+    expect(await backend.list()).toEqual([]);
+    expect(await backend.revision()).toBeNull();
+
+    await backend.write({ 'manifest.json': '{}' });
+    expect(server.fetch.mock.calls.some(([, init]) => init?.method === 'MKCOL')).toBe(true);
+    expect(await backend.read('manifest.json')).toBe('{}');
+  });
+
+  it('sends the credentials as basic auth', async () => {
+    await backend.list();
+
+    const [, init] = server.fetch.mock.calls[0];
+    expect((init?.headers as Record<string, string>).Authorization).toBe(`Basic ${btoa('me:secret')}`);
+  });
+
+  it('fails the write when a PUT is refused', async () => {
+    server.failPuts(507);
+
+    await expect(backend.write({ 'manifest.json': '{}' })).rejects.toThrow('HTTP 507');
+  });
+
+  it('fails the write when a PUT answers 404', async () => {
+    server.failPuts(404);
+
+    await expect(backend.write({ 'manifest.json': '{}' })).rejects.toThrow('HTTP 404');
+  });
+});
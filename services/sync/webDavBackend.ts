@@ -0,0 +1,168 @@
+import { SyncBackend } from './types';
+import { MANIFEST_FILENAME } from '../shardedBackup';
+
+const WEBDAV_SETTINGS_KEY = 'latelier_webdav';
+
+export interface WebDavSettings {
+  url: string; // Collection holding the backup files, e.g. https://cloud.example.com/remote.php/dav/files/me/latelier/
+  username: string;
+  password: string;
+}
+
+const EMPTY_SETTINGS: WebDavSettings = { url: '', username: '', password: '' };
+
+// Requests where a missing file is an answer rather than an error
+const MISSING_OK_METHODS = ['GET', 'PROPFIND', 'DELETE'];
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:"><d:prop><d:resourcetype/><d:getetag/><d:getlastmodified/></d:prop></d:propfind>`;
+
+// btoa only takes Latin-1, credentials may not be
+const encodeBasicAuth = (username: string, password: string) => {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+};
+
+/**
+ * WebDAV backend (Nextcloud, Synology / QNAP NAS, rclone serve webdav...)
+ * The server must allow CORS requests from the app's origin
+ */
+export class WebDavBackend implements SyncBackend {
+  readonly id = 'webdav' as const;
+  readonly atomicWrites = false;
+
+  private settings: WebDavSettings;
+  private collectionReady = false;
+
+  constructor() {
+    try {
+      const stored = localStorage.getItem(WEBDAV_SETTINGS_KEY);
+      this.settings = stored ? { ...EMPTY_SETTINGS, ...JSON.parse(stored) } : EMPTY_SETTINGS;
+    } catch {
+      this.settings = EMPTY_SETTINGS;
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.settings.url;
+  }
+
+  describe(): string {
+    return this.settings.url;
+  }
+
+  getSettings(): WebDavSettings {
+    return this.settings;
+  }
+
+  configure(settings: WebDavSettings): void {
+    const url = settings.url.trim();
+    this.settings = { ...settings, url: url && !url.endsWith('/') ? `${url}/` : url };
+    this.collectionReady = false;
+    localStorage.setItem(WEBDAV_SETTINGS_KEY, JSON.stringify(this.settings));
+  }
+
+  async disconnect(): Promise<void> {
+    this.settings = EMPTY_SETTINGS;
+    this.collectionReady = false;
+    localStorage.removeItem(WEBDAV_SETTINGS_KEY);
+  }
+
+  async list(): Promise<string[]> {
+    const response = await this.request('PROPFIND', '', { body: PROPFIND_BODY, headers: { Depth: '1' } });
+    if (response.status === 404) return [];
+
+    const collectionPath = new URL(this.settings.url).pathname;
+    return this.parseResponses(await response.text())
+      .filter(entry => !entry.isCollection)
+      .map(entry => decodeURIComponent(new URL(entry.href, this.settings.url).pathname))
+      .filter(path => path.startsWith(decodeURIComponent(collectionPath)))
+      .map(path => path.slice(decodeURIComponent(collectionPath).length))
+      .filter(name => name && !name.includes('/'));
+  }
+
+  async read(name: string): Promise<string | null> {
+    const response = await this.request('GET', name);
+    return response.status === 404 ? null : response.text();
+  }
+
+  async write(files: Record<string, string>): Promise<void> {
+    await this.ensureCollection();
+    await Promise.all(Object.entries(files).map(([name, content]) =>
+      this.request('PUT', name, { body: content, headers: { 'Content-Type': 'application/json' } })
+    ));
+  }
+
+  async delete(names: string[]): Promise<void> {
+    // 404 is fine: the file is already gone
+    await Promise.all(names.map(name => this.request('DELETE', name)));
+  }
+
+  /**
+   * ETag (or modification date) of the manifest, rewritten on every upload
+   */
+  async revision(): Promise<string | null> {
+    const response = await this.request('PROPFIND', MANIFEST_FILENAME, { body: PROPFIND_BODY, headers: { Depth: '0' } });
+    if (response.status === 404) return null;
+
+    const [entry] = this.parseResponses(await response.text());
+    return entry?.etag || entry?.lastModified || null;
+  }
+
+  /**
+   * Creates the backup collection on first write (the parent must exist)
+   */
+  private async ensureCollection(): Promise<void> {
+    if (this.collectionReady) return;
+    const response = await this.request('PROPFIND', '', { body: PROPFIND_BODY, headers: { Depth: '0' } });
+    if (response.status === 404) {
+      await this.request('MKCOL', '');
+    }
+    this.collectionReady = true;
+  }
+
+  private parseResponses(xml: string): { href: string; isCollection: boolean; etag?: string; lastModified?: string }[] {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    return Array.from(doc.getElementsByTagNameNS('DAV:', 'response')).map(response => {
+      const text = (tag: string) => response.getElementsByTagNameNS('DAV:', tag)[0]?.textContent || undefined;
+      return {
+        href: text('href') || '',
+        isCollection: response.getElementsByTagNameNS('DAV:', 'collection').length > 0,
+        etag: text('getetag'),
+        lastModified: text('getlastmodified')
+      };
+    });
+  }
+
+  /**
+   * Sends a request relative to the collection URL
+   * 404 is returned to the caller for GET, PROPFIND and DELETE; any other failure throws
+   */
+  private async request(method: string, name: string, init: { body?: string; headers?: Record<string, string> } = {}): Promise<Response> {
+    if (!this.settings.url) {
+      throw new Error('尚未設定 WebDAV 伺服器');
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(new URL(encodeURIComponent(name), this.settings.url).toString(), {
+        method,
+        body: init.body,
+        headers: {
+          ...init.headers,
+          ...(this.settings.username && { Authorization: encodeBasicAuth(this.settings.username, this.settings.password) })
+        }
+      });
+    } catch {
+      throw new Error('WebDAV 連線失敗，請確認網址以及伺服器是否允許跨來源 (CORS) 請求');
+    }
+
+    if (!response.ok && !(response.status === 404 && MISSING_OK_METHODS.includes(method))) {
+      if (response.status === 401 || response.status === 403) {
+        throw new Error('WebDAV 帳號或密碼錯誤，或沒有存取權限');
+      }
+      throw new Error(`WebDAV ${method} ${name || '/'} 失敗 (HTTP ${response.status})`);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { StickerItem, StickerSet } from '../types';
+import { isSameContent, mergeStickerSets, touchStickerSet } from './syncMerge';
+
+const item = (n: number, fields: Partial<StickerItem> = {}): StickerItem => ({
+  id: `item-${n}`,
+  originalOrder: n,
+  name: `Image ${n}`,
+  ...fields
+});
+
+const stickerSet = (fields: Partial<StickerSet> = {}): StickerSet => ({
+  id: 'set-1',
+  order: 0,
+  title: '貓咪日常',
+  enTitle: 'Cat Days',
+  series: '',
+  zhDesc: '',
+  enDesc: '',
+  storeUrl: '',
+  status: 'IN_PROGRESS',
+  type: 'Sticker',
+  itemCount: 3,
+  createdAt: 0,
+  items: [item(1), item(2), item(3)],
+  ...fields
+});
+
+const withItems = (set: StickerSet, items: StickerItem[]): StickerSet => ({ ...set, items, itemCount: items.length });
+
+describe('mergeStickerSets', () => {
+  it('takes the changes of each side on different fields', () => {
+    const base = stickerSet();
+    const local = stickerSet({ title: '貓咪的日常' });
+    const remote = stickerSet({ enDesc: 'A cat at home' });
+
+    const { sets, conflicts } = mergeStickerSets([base], [local], [remote]);
+
+    expect(conflicts).toEqual([]);
+    expect(sets[0]).toMatchObject({ title: '貓咪的日常', enDesc: 'A cat at home' });
+  });
+
+  it('reports a field changed on both sides and keeps the local value until a choice is made', () => {
+    const base = stickerSet();
+    const local = stickerSet({ title: '本地標題' });
+    const remote = stickerSet({ title: '雲端標題' });
+
+    const first = mergeStickerSets([base], [local], [remote]);
+    expect(first.conflicts).toMatchObject([{ id: 'set-1:title', kind: 'setField', local: '本地標題', remote: '雲端標題' }]);
+    expect(first.sets[0].title).toBe('本地標題');
+
+    // Choices are fed back by conflict id
+    const second = mergeStickerSets([base], [local], [remote], { [first.conflicts[0].id]: 'remote' });
+    expect(second.conflicts).toEqual([]);
+    expect(second.sets[0].title).toBe('雲端標題');
+  });
+
+  it('merges item fields and items added on either side', () => {
+    const base = stickerSet();
+    const local = withItems(base, [item(1, { name: '早安' }), item(2), item(3)]);
+    const remote = withItems(base, [item(1, { enName: 'Morning' }), item(2), item(3), item(4)]);
+
+    const { sets, conflicts } = mergeStickerSets([base], [local], [remote]);
+
+    expect(conflicts).toEqual([]);
+    expect(sets[0].items.map(i => i.id)).toEqual(['item-1', 'item-2', 'item-3', 'item-4']);
+    expect(sets[0].items[0]).toMatchObject({ name: '早安', enName: 'Morning' });
+    expect(sets[0].itemCount).toBe(4);
+  });
+
+  it('drops an item deleted on one side and untouched on the other', () => {
+    const base = stickerSet();
+    const local = withItems(base, [item(1), item(3)]);
+
+    const { sets, conflicts } = mergeStickerSets([base], [local], [base]);
+
+    expect(conflicts).toEqual([]);
+    expect(sets[0].items.map(i => i.id)).toEqual(['item-1', 'item-3']);
+  });
+
+  it('reports an item deleted on one side and edited on the other', () => {
+    const base = stickerSet();
+    const local = withItems(base, [item(1), item(3)]);
+    const remote = withItems(base, [item(1), item(2, { name: '晚安' }), item(3)]);
+
+    const first = mergeStickerSets([base], [local], [remote]);
+    expect(first.conflicts).toMatchObject([{ id: 'set-1:item:item-2', kind: 'item', local: undefined }]);
+    // Kept until the user decides
+    expect(first.sets[0].items.map(i => i.id)).toContain('item-2');
+
+    const keepDeletion = mergeStickerSets([base], [local], [remote], { 'set-1:item:item-2': 'local' });
+    expect(keepDeletion.sets[0].items.map(i => i.id)).toEqual(['item-1', 'item-3']);
+
+    const keepEdit = mergeStickerSets([base], [local], [remote], { 'set-1:item:item-2': 'remote' });
+    expect(keepEdit.sets[0].items.find(i => i.id === 'item-2')?.name).toBe('晚安');
+  });
+
+  it('reports a set deleted locally and edited remotely', () => {
+    const base = stickerSet();
+    const remote = stickerSet({ status: 'ARCHIVED' });
+
+    const { sets, conflicts } = mergeStickerSets([base], [], [remote]);
+
+    expect(conflicts).toMatchObject([{ id: 'set-1', kind: 'set' }]);
+    expect(sets.map(s => s.id)).toEqual(['set-1']);
+    expect(mergeStickerSets([base], [], [remote], { 'set-1': 'local' }).sets).toEqual([]);
+  });
+
+  it('does not count additions and deletions as reordering', () => {
+    const base = stickerSet();
+    const local = withItems(base, [item(3), item(1), item(2)]);
+    const remote = withItems(base, [item(1), item(3), item(4)]);
+
+    const { sets, conflicts } = mergeStickerSets([base], [local], [remote]);
+
+    expect(conflicts).toEqual([]);
+    // Local order, the remote deletion and the remote addition at the end
+    expect(sets[0].items.map(i => i.id)).toEqual(['item-3', 'item-1', 'item-4']);
+  });
+
+  it('reports items reordered differently on both sides', () => {
+    const base = stickerSet();
+    const local = withItems(base, [item(3), item(1), item(2)]);
+    const remote = withItems(base, [item(2), item(1), item(3)]);
+
+    const first = mergeStickerSets([base], [local], [remote]);
+    expect(first.conflicts).toMatchObject([{ id: 'set-1:order', kind: 'order' }]);
+    expect(first.sets[0].items.map(i => i.id)).toEqual(['item-3', 'item-1', 'item-2']);
+
+    const second = mergeStickerSets([base], [local], [remote], { 'set-1:order': 'remote' });
+    expect(second.sets[0].items.map(i => i.id)).toEqual(['item-2', 'item-1', 'item-3']);
+  });
+
+  it('treats every difference as a conflict without a base', () => {
+    const { conflicts } = mergeStickerSets([], [stickerSet({ title: 'A' })], [stickerSet({ title: 'B' })]);
+
+    expect(conflicts.map(c => c.id)).toEqual(['set-1:title']);
+  });
+});
+
+describe('isSameContent', () => {
+  it('ignores updatedAt stamps and key order', () => {
+    const set = stickerSet();
+    const stamped = touchStickerSet(undefined, set, 1000);
+    const reordered = Object.fromEntries(Object.entries(stamped).reverse());
+
+    expect(isSameContent([set], [stamped])).toBe(true);
+    expect(isSameContent(stamped, { ...reordered, updatedAt: 2000 })).toBe(true);
+  });
+
+  it('still sees content changes', () => {
+    expect(isSameContent(stickerSet(), stickerSet({ title: '新標題' }))).toBe(false);
+    expect(isSameContent(stickerSet(), withItems(stickerSet(), [item(1), item(2)]))).toBe(false);
+  });
+});
+
+describe('touchStickerSet', () => {
+  it('stamps only the items that changed', () => {
+    const previous = stickerSet();
+    const next = withItems(previous, [item(1), item(2, { name: '改名' }), item(3)]);
+
+    const touched = touchStickerSet(previous, next, 5000);
+
+    expect(touched.updatedAt).toBe(5000);
+    expect(touched.items.map(i => i.updatedAt)).toEqual([undefined, 5000, undefined]);
+  });
+
+  it('returns the set as is when nothing changed', () => {
+    const previous = stickerSet();
+    const next = stickerSet();
+
+    expect(touchStickerSet(previous, next)).toBe(next);
+  });
+});
@@ -0,0 +1,284 @@
+import { StickerItem, StickerSet } from '../types';
+
+export type SyncSide = 'local' | 'remote';
+
+/**
+ * A change made on both sides since the last sync
+ * `id` is stable between merge passes, so choices can be fed back into mergeStickerSets
+ */
+export interface SyncConflict {
+  id: string;
+  setId: string;
+  setTitle: string;
+  kind: 'set' | 'setField' | 'item' | 'itemField' | 'order';
+  /** Human readable description, e.g. "標題" or "#03 名稱" */
+  label: string;
+  /** Field name for field conflicts (used to render image previews) */
+  field?: string;
+  /** Values on each side; undefined means deleted on that side */
+  local: unknown;
+  remote: unknown;
+}
+
+export interface MergeResult {
+  sets: StickerSet[];
+  /** Conflicts without a choice; the local value is used for them in `sets` */
+  conflicts: SyncConflict[];
+}
+
+export type ConflictChoices = Record<string, SyncSide>;
+
+const FIELD_LABELS: Record<string, string> = {
+  order: '排列順序',
+  title: '標題',
+  enTitle: '英文標題',
+  series: '系列',
+  zhDesc: '中文介紹',
+  enDesc: '英文介紹',
+  storeUrl: '商店連結',
+  status: '狀態',
+  type: '類型',
+  mainImage: '主要圖片',
+  tabImage: '標籤圖片',
+  compressionProfile: '壓縮設定',
+  name: '名稱',
+  enName: '英文名稱',
+  imageId: '圖片',
+  originalId: '原始圖片',
+  machineTranslated: '翻譯標記'
+};
+
+// Bookkeeping fields that are derived rather than merged
+const SKIPPED_FIELDS = new Set(['id', 'items', 'itemCount', 'updatedAt']);
+
+// Key order differs between records built by spreading and records parsed from JSON
+const canonical = (value: unknown, withoutStamps = false): unknown => {
+  if (Array.isArray(value)) return value.map(v => canonical(v, withoutStamps));
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce<Record<string, unknown>>((acc, key) => {
+      if (withoutStamps && key === 'updatedAt') return acc;
+      acc[key] = canonical((value as Record<string, unknown>)[key], withoutStamps);
+      return acc;
+    }, {});
+  }
+  return value;
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+
+class Merger {
+  conflicts: SyncConflict[] = [];
+  private choices: ConflictChoices;
+
+  constructor(choices: ConflictChoices) {
+    this.choices = choices;
+  }
+
+  /**
+   * Classic three-way rule: a side that still equals the base takes the other side's change
+   * Without a base (never synced), any difference is a conflict
+   */
+  pick<T>(conflict: Omit<SyncConflict, 'local' | 'remote'>, base: T | undefined, local: T, remote: T, hasBase: boolean): SyncSide {
+    if (same(local, remote)) return 'local';
+    if (hasBase && same(local, base)) return 'remote';
+    if (hasBase && same(remote, base)) return 'local';
+
+    const choice = this.choices[conflict.id];
+    if (choice) return choice;
+
+    this.conflicts.push({ ...conflict, local, remote });
+    return 'local';
+  }
+
+  mergeFields<T extends object>(
+    idPrefix: string,
+    context: Pick<SyncConflict, 'setId' | 'setTitle'>,
+    labelPrefix: string,
+    kind: 'setField' | 'itemField',
+    base: T | undefined,
+    local: T,
+    remote: T
+  ): T {
+    const merged = { ...local } as Record<string, unknown>;
+    const keys = new Set([...Object.keys(local), ...Object.keys(remote), ...Object.keys(base || {})]);
+
+    keys.forEach(key => {
+      if (SKIPPED_FIELDS.has(key)) return;
+      const b = (base as Record<string, unknown> | undefined)?.[key];
+      const l = (local as Record<string, unknown>)[key];
+      const r = (remote as Record<string, unknown>)[key];
+
+      const side = this.pick(
+        { id: `${idPrefix}:${key}`, ...context, kind, field: key, label: `${labelPrefix}${FIELD_LABELS[key] || key}` },
+        b, l, r, !!base
+      );
+      merged[key] = side === 'local' ? l : r;
+      if (merged[key] === undefined) delete merged[key];
+    });
+
+    return merged as T;
+  }
+
+  /**
+   * Merges the presence of one record (set or item)
+   * @returns The side whose version survives, or null when the record is deleted
+   */
+  mergePresence<T>(
+    conflict: Omit<SyncConflict, 'local' | 'remote'>,
+    base: T | undefined,
+    local: T | undefined,
+    remote: T | undefined
+  ): 'both' | SyncSide | null {
+    if (local && remote) return 'both';
+    if (!local && !remote) return null;
+
+    const present = local ? 'local' : 'remote';
+    const existing = (local || remote)!;
+
+    // Created on one side since the last sync
+    if (!base) return present;
+    // Deleted on one side, untouched on the other
+    if (same(existing, base)) return null;
+
+    // Deleted on one side, edited on the other
+    const choice = this.choices[conflict.id];
+    if (choice) return choice === present ? present : null;
+
+    this.conflicts.push({ ...conflict, local, remote });
+    return present; // Keep the data until the user decides
+  }
+
+  mergeItems(set: Pick<SyncConflict, 'setId' | 'setTitle'>, base: StickerSet | undefined, local: StickerSet, remote: StickerSet): StickerItem[] {
+    const byId = (items: StickerItem[] = []) => new Map(items.map(item => [item.id, item]));
+    const baseItems = byId(base?.items);
+    const localItems = byId(local.items);
+    const remoteItems = byId(remote.items);
+
+    const label = (id: string) => {
+      const index = local.items.findIndex(i => i.id === id);
+      const position = index !== -1 ? index : remote.items.findIndex(i => i.id === id);
+      return `#${(position + 1).toString().padStart(2, '0')} `;
+    };
+
+    const merged = new Map<string, StickerItem>();
+    const allIds = [...local.items.map(i => i.id), ...remote.items.map(i => i.id).filter(id => !localItems.has(id))];
+
+    allIds.forEach(id => {
+      const b = baseItems.get(id);
+      const l = localItems.get(id);
+      const r = remoteItems.get(id);
+      const presence = this.mergePresence(
+        { id: `${set.setId}:item:${id}`, ...set, kind: 'item', label: `${label(id)}項目` },
+        b, l, r
+      );
+
+      if (presence === 'both') {
+        const item = this.mergeFields(`${set.setId}:item:${id}`, set, label(id), 'itemField', b, l!, r!);
+        merged.set(id, { ...item, updatedAt: Math.max(l!.updatedAt || 0, r!.updatedAt || 0) || undefined });
+      } else if (presence) {
+        merged.set(id, (presence === 'local' ? l : r)!);
+      }
+    });
+
+    // Order: compare the relative order of items that exist everywhere,
+    // so additions and deletions alone never count as reordering
+    const localOrder = local.items.map(i => i.id);
+    const remoteOrder = remote.items.map(i => i.id);
+    const common = (order: string[]) => order.filter(id => localItems.has(id) && remoteItems.has(id) && (!base || baseItems.has(id)));
+    const baseOrder = base ? base.items.map(i => i.id) : undefined;
+
+    const orderSide = this.pick(
+      { id: `${set.setId}:order`, ...set, kind: 'order', label: '項目順序' },
+      baseOrder && common(baseOrder), common(localOrder), common(remoteOrder), !!base
+    );
+    const primary = orderSide === 'local' ? localOrder : remoteOrder;
+    const secondary = orderSide === 'local' ? remoteOrder : localOrder;
+
+    const orderedIds = [...primary, ...secondary.filter(id => !primary.includes(id))];
+    return orderedIds.filter(id => merged.has(id)).map(id => merged.get(id)!);
+  }
+}
+
+/**
+ * Three-way merge of the local and remote sticker sets against the last synced base
+ * @param base - Sets as of the last successful sync (empty if never synced)
+ * @param local - Current IndexedDB content
+ * @param remote - Current cloud content
+ * @param choices - User decisions for conflicts reported by a previous pass
+ */
+export function mergeStickerSets(
+  base: StickerSet[],
+  local: StickerSet[],
+  remote: StickerSet[],
+  choices: ConflictChoices = {}
+): MergeResult {
+  const merger = new Merger(choices);
+  const byId = (sets: StickerSet[]) => new Map(sets.map(set => [set.id, set]));
+  const baseSets = byId(base);
+  const localSets = byId(local);
+  const remoteSets = byId(remote);
+
+  const allIds = [...local.map(s => s.id), ...remote.map(s => s.id).filter(id => !localSets.has(id))];
+  const merged: StickerSet[] = [];
+
+  allIds.forEach(id => {
+    const b = baseSets.get(id);
+    const l = localSets.get(id);
+    const r = remoteSets.get(id);
+    const context = { setId: id, setTitle: (l || r)!.title };
+
+    const presence = merger.mergePresence({ id, ...context, kind: 'set', label: '貼圖集' }, b, l, r);
+    if (presence === null) return;
+    if (presence !== 'both') {
+      merged.push((presence === 'local' ? l : r)!);
+      return;
+    }
+
+    const fields = merger.mergeFields(id, context, '', 'setField', b, l!, r!);
+    const items = merger.mergeItems(context, b, l!, r!);
+    merged.push({
+      ...fields,
+      items,
+      itemCount: items.length,
+      updatedAt: Math.max(l!.updatedAt || 0, r!.updatedAt || 0) || undefined
+    });
+  });
+
+  merged.sort((a, b) => (a.order || 0) - (b.order || 0));
+  return { sets: merged, conflicts: merger.conflicts };
+}
+
+/**
+ * Compares sets or lists of sets by content, ignoring key order and `updatedAt` stamps
+ * Stamps only matter when picking a merge winner; two copies that differ only there are the same data.
+ */
+export function isSameContent(a: unknown, b: unknown): boolean {
+  return JSON.stringify(canonical(a, true)) === JSON.stringify(canonical(b, true));
+}
+
+/**
+ * Stamps `updatedAt` on the set and on every item that differs from the previous version
+ * Only local edits go through here; synced data keeps the timestamps it came with
+ */
+export function touchStickerSet(previous: StickerSet | undefined, next: StickerSet, now = Date.now()): StickerSet {
+  const withoutStamp = <T extends { updatedAt?: number }>({ updatedAt, ...rest }: T) => rest;
+  const previousItems = new Map((previous?.items || []).map(item => [item.id, item]));
+
+  let changed = !previous;
+  const items = next.items.map(item => {
+    const before = previousItems.get(item.id);
+    if (before && same(withoutStamp(before), withoutStamp(item))) return item;
+    changed = true;
+    return { ...item, updatedAt: now };
+  });
+
+  if (previous) {
+    const { items: _previousItems, ...previousFields } = withoutStamp(previous);
+    const { items: _nextItems, ...nextFields } = withoutStamp(next);
+    changed = changed
+      || !same(previousFields, nextFields)
+      || !same(previous.items.map(i => i.id), next.items.map(i => i.id));
+  }
+
+  return changed ? { ...next, items, updatedAt: now } : next;
+}
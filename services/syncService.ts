@@ -0,0 +1,492 @@
+import { StickerSet } from '../types';
+import { BackupFile, createBackup, restoreBackupImages } from './backup';
+import { applyStickerSetChanges, getAllStickerSets, getSetsGeneration, getSyncBase, replaceSyncBase } from './storage';
+import { ConflictChoices, SyncConflict, isSameContent, mergeStickerSets } from './syncMerge';
+import {
+  BackupFiles,
+  BackupManifest,
+  LEGACY_BACKUP_FILENAME,
+  MANIFEST_FILENAME,
+  encodeShardedBackup,
+  parseManifest,
+  readStoredBackup
+} from './shardedBackup';
+import { BackendRevision, SyncBackend, SyncBackendId } from './sync/types';
+import { getSyncBackend, loadSyncBackendId, saveSyncBackendId } from './sync/settings';
+
+export type { SyncBackend, SyncBackendId } from './sync/types';
+
+const AUTO_SYNC_KEY = 'latelier_auto_sync';
+const SYNC_REVISION_KEY = 'latelier_sync_revision';
+
+// Auto-sync timing
+const PUSH_DEBOUNCE_MS = 5000;
+const FOCUS_PULL_MIN_INTERVAL_MS = 30 * 1000;
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+export interface SyncStatus {
+  syncing: boolean;
+  lastSync?: Date;
+  error?: string;
+  /** Local changes waiting for the debounced auto push */
+  pending?: boolean;
+  /** Next automatic retry after a failure */
+  retryAt?: Date;
+}
+
+/**
+ * Asks the user to settle conflicts; resolves to null to cancel the sync
+ */
+export type ConflictResolver = (conflicts: SyncConflict[]) => Promise<ConflictChoices | null>;
+
+/**
+ * Local sets changed while a sync was running, or the app can no longer take a pull:
+ * nothing was written, the sync has to run again
+ */
+export class LocalChangesError extends Error {
+  constructor() {
+    super('同步期間本地資料有變更，請再同步一次');
+  }
+}
+
+export interface SyncResult {
+  sets: StickerSet[];
+  /** Local data changed (remote edits applied) */
+  pulled: boolean;
+  /** The remote copy was updated */
+  pushed: boolean;
+  resolvedConflicts: number;
+}
+
+export interface AutoSyncOptions {
+  resolveConflicts: ConflictResolver;
+  /** Called after every successful automatic sync */
+  onSynced: (result: SyncResult) => void;
+  /** Return false to postpone syncing (e.g. while a set is open in the editor) */
+  canSync: () => boolean;
+}
+
+/**
+ * Cloud Sync Service
+ * Synchronizes sticker data with the selected backend (GitHub Gist, local folder, WebDAV)
+ */
+export class SyncService {
+  private backend: SyncBackend;
+
+  // Layout of the remote copy as of the last download/upload, used to write only changed files
+  private remoteManifest: BackupManifest | null = null;
+  private remoteIsLegacy = false;
+
+  private status: SyncStatus = { syncing: false };
+  private statusListeners = new Set<(status: SyncStatus) => void>();
+
+  private autoSync: AutoSyncOptions | null = null;
+  private autoSyncTimer: ReturnType<typeof setTimeout> | null = null;
+  private failedAttempts = 0;
+
+  constructor() {
+    this.backend = getSyncBackend();
+  }
+
+  getBackend(): SyncBackend {
+    return this.backend;
+  }
+
+  /**
+   * Check if the selected backend has a target and credentials
+   */
+  isConnected(): boolean {
+    return this.backend.isConfigured();
+  }
+
+  /**
+   * Switches to a backend (already configured by the caller)
+   * The sync base belongs to the previous target, so it is dropped when the target changes
+   * @param targetChanged - Same backend, but pointed at another account, folder or server
+   */
+  async selectBackend(id: SyncBackendId, targetChanged = false): Promise<void> {
+    const changed = targetChanged || id !== loadSyncBackendId();
+    saveSyncBackendId(id);
+    this.backend = getSyncBackend(id);
+    if (changed) {
+      await this.forgetRemote();
+    }
+  }
+
+  /**
+   * Forgets the credentials of the selected backend (local data is kept)
+   */
+  async disconnect(): Promise<void> {
+    await this.backend.disconnect();
+    await this.forgetRemote();
+  }
+
+  private async forgetRemote(): Promise<void> {
+    this.remoteManifest = null;
+    this.remoteIsLegacy = false;
+    localStorage.removeItem(SYNC_REVISION_KEY);
+    await replaceSyncBase([]);
+    this.setStatus({ lastSync: undefined, error: undefined, pending: false, retryAt: undefined });
+  }
+
+  /**
+   * Two-way sync: three-way merges local and remote against the last synced base,
+   * applies the result locally and pushes it back when the remote copy is behind
+   * @param canApply - Checked again right before the merge is written locally
+   * @returns null when the user cancelled the conflict resolution (nothing is written)
+   * @throws LocalChangesError when local sets changed during the network round trips or the conflict dialog
+   */
+  async sync(resolveConflicts: ConflictResolver, canApply?: () => boolean): Promise<SyncResult | null> {
+    if (!this.backend.isConfigured()) {
+      throw new Error('尚未連線雲端');
+    }
+    if (this.status.syncing) {
+      throw new Error('正在同步中，請稍候');
+    }
+
+    this.setStatus({ syncing: true, pending: false });
+    try {
+      const result = await this.mergeWithRemote(resolveConflicts, canApply);
+      if (result) this.failedAttempts = 0;
+      this.setStatus({ syncing: false, error: undefined, ...(result && { lastSync: new Date(), retryAt: undefined }) });
+      return result;
+    } catch (error: any) {
+      this.setStatus({ syncing: false, error: error.message });
+      throw error;
+    }
+  }
+
+  private async mergeWithRemote(resolveConflicts: ConflictResolver, canApply?: () => boolean): Promise<SyncResult | null> {
+    const generation = getSetsGeneration();
+    const [local, base] = await Promise.all([getAllStickerSets(), getSyncBase()]);
+
+    // Unchanged since our last sync: the remote content is the base, only the manifest is needed
+    const revision = await this.backend.revision();
+    let remote: StickerSet[];
+    if (revision && revision === localStorage.getItem(SYNC_REVISION_KEY)) {
+      await this.readManifest();
+      remote = base;
+    } else {
+      // Remote blobs are written first (refCount 0 until referenced), so merged sets can point at them
+      remote = await restoreBackupImages(await this.download());
+    }
+
+    let result = mergeStickerSets(base, local, remote);
+    let resolvedConflicts = 0;
+    if (result.conflicts.length > 0) {
+      const choices = await resolveConflicts(result.conflicts);
+      if (!choices) return null;
+      resolvedConflicts = result.conflicts.length;
+      result = mergeStickerSets(base, local, remote, choices);
+    }
+
+    const merged = result.sets;
+    const mergedIds = new Set(merged.map(set => set.id));
+    const deletedIds = local.filter(set => !mergedIds.has(set.id)).map(set => set.id);
+
+    // The download and the conflict dialog can take long: a save, reorder, new set or deletion
+    // made meanwhile (here or in another tab) is not in `local`, so the merge would revert it
+    const current = await getAllStickerSets();
+    if (getSetsGeneration() !== generation || !isSameContent(local, current) || (canApply && !canApply())) {
+      throw new LocalChangesError();
+    }
+
+    const pulled = !isSameContent(local, merged);
+    if (pulled) {
+      await applyStickerSetChanges(merged, deletedIds);
+    }
+
+    // A single-file backup is rewritten as shards even when nothing changed
+    const pushed = !isSameContent(remote, merged) || this.remoteIsLegacy;
+    if (pushed) {
+      await this.upload(await createBackup(merged));
+    }
+
+    await replaceSyncBase(merged);
+    // After a push the new revision is unknown (someone may write right after us): download next time
+    this.rememberRevision(pushed ? null : revision);
+    // Edits saved during the upload come after the merge in storage; hand back what is stored now
+    const sets = getSetsGeneration() === generation + (pulled ? 1 : 0) ? merged : await getAllStickerSets();
+    return { sets, pulled, pushed, resolvedConflicts };
+  }
+
+  // --- Status ---
+
+  getStatus = (): SyncStatus => this.status;
+
+  /**
+   * Listens to status changes (shaped for useSyncExternalStore)
+   */
+  subscribe = (listener: (status: SyncStatus) => void): (() => void) => {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  };
+
+  private setStatus(updates: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...updates };
+    this.statusListeners.forEach(listener => listener(this.status));
+  }
+
+  // --- Auto sync ---
+
+  isAutoSyncEnabled(): boolean {
+    return localStorage.getItem(AUTO_SYNC_KEY) === 'true';
+  }
+
+  setAutoSyncEnabled(enabled: boolean): void {
+    localStorage.setItem(AUTO_SYNC_KEY, String(enabled));
+  }
+
+  /**
+   * Pulls right away, then again whenever the tab regains focus
+   * Local changes are pushed through requestSync
+   * @returns A function that stops auto sync
+   */
+  startAutoSync(options: AutoSyncOptions): () => void {
+    this.autoSync = options;
+    this.failedAttempts = 0;
+
+    const handleFocus = () => {
+      if (document.visibilityState !== 'visible') return;
+      // Don't pull on every alt-tab, and never jump ahead of a pending retry
+      const lastSync = this.status.lastSync?.getTime() || 0;
+      if (this.status.retryAt || Date.now() - lastSync < FOCUS_PULL_MIN_INTERVAL_MS) return;
+      this.scheduleAutoSync(0);
+    };
+
+    window.addEventListener('focus', handleFocus);
+    document.addEventListener('visibilitychange', handleFocus);
+    this.scheduleAutoSync(0);
+
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      document.removeEventListener('visibilitychange', handleFocus);
+      if (this.autoSyncTimer) clearTimeout(this.autoSyncTimer);
+      this.autoSyncTimer = null;
+      this.autoSync = null;
+      this.setStatus({ pending: false, retryAt: undefined });
+    };
+  }
+
+  /**
+   * Debounced push after a local change (no-op when auto sync is off)
+   */
+  requestSync(): void {
+    if (!this.autoSync) return;
+    this.setStatus({ pending: true });
+    // A scheduled retry already covers this change
+    if (this.status.retryAt) return;
+    this.scheduleAutoSync(PUSH_DEBOUNCE_MS);
+  }
+
+  private scheduleAutoSync(delay: number): void {
+    if (this.autoSyncTimer) clearTimeout(this.autoSyncTimer);
+    this.autoSyncTimer = setTimeout(() => {
+      this.autoSyncTimer = null;
+      this.runAutoSync();
+    }, delay);
+  }
+
+  private async runAutoSync(): Promise<void> {
+    const options = this.autoSync;
+    if (!options || !this.backend.isConfigured()) return;
+
+    // Busy (manual sync running, or editing): check again later
+    if (this.status.syncing || !options.canSync()) {
+      this.scheduleAutoSync(PUSH_DEBOUNCE_MS);
+      return;
+    }
+
+    try {
+      const result = await this.sync(options.resolveConflicts, options.canSync);
+      if (result) {
+        options.onSynced(result);
+      } else {
+        // Conflict dialog dismissed: keep the changes pending until the next save or focus
+        this.setStatus({ pending: true, error: '有未解決的同步衝突' });
+      }
+    } catch (error) {
+      if (this.autoSync !== options) return;
+      if (error instanceof LocalChangesError) {
+        // Not a failure: sync again once the local changes have settled
+        this.setStatus({ pending: true, error: undefined });
+        this.scheduleAutoSync(PUSH_DEBOUNCE_MS);
+        return;
+      }
+      const delay = Math.min(RETRY_BASE_MS * 2 ** this.failedAttempts, RETRY_MAX_MS);
+      this.failedAttempts++;
+      console.warn(`Auto sync failed, retrying in ${delay / 1000}s`, error);
+      this.setStatus({ pending: true, retryAt: new Date(Date.now() + delay) });
+      this.scheduleAutoSync(delay);
+    }
+  }
+
+  /**
+   * Records the given sets as the common base (after a plain download or upload)
+   */
+  async markSynced(sets: StickerSet[]): Promise<void> {
+    await replaceSyncBase(sets);
+    this.rememberRevision(null);
+    this.setStatus({ lastSync: new Date(), error: undefined });
+  }
+
+  private rememberRevision(revision: string | null): void {
+    if (revision) {
+      localStorage.setItem(SYNC_REVISION_KEY, revision);
+    } else {
+      localStorage.removeItem(SYNC_REVISION_KEY);
+    }
+  }
+
+  /**
+   * Upload a backup (sticker sets and original images) to the selected backend
+   * Only files that differ from the last downloaded manifest are written
+   */
+  async upload(backup: BackupFile): Promise<void> {
+    const backend = this.backend;
+
+    let encoded: { manifest: BackupManifest; files: BackupFiles };
+    try {
+      encoded = await encodeShardedBackup(backup);
+    } catch (error: any) {
+      throw new Error(`資料格式化失敗：${error.message}`);
+    }
+
+    if (backend.maxFileSize) {
+      const limitInMB = backend.maxFileSize / (1024 * 1024);
+      for (const [name, content] of Object.entries(encoded.files)) {
+        const sizeInMB = new Blob([content]).size / (1024 * 1024);
+        if (sizeInMB > limitInMB) {
+          throw new Error(`${name} 太大（${sizeInMB.toFixed(2)} MB），超過 ${limitInMB}MB 的檔案限制。請減少圖片大小。`);
+        }
+        if (sizeInMB > limitInMB / 2) {
+          console.warn(`Warning: ${name} is ${sizeInMB.toFixed(2)} MB, approaching the ${limitInMB} MB limit`);
+        }
+      }
+    }
+
+    const { changed, removed } = this.diffFiles(encoded);
+
+    try {
+      if (backend.atomicWrites) {
+        await backend.write(changed);
+      } else {
+        // The manifest goes last, so an interrupted upload never points at missing files
+        const { [MANIFEST_FILENAME]: manifest, ...dataFiles } = changed;
+        await backend.write(dataFiles);
+        await backend.write({ [MANIFEST_FILENAME]: manifest });
+      }
+      if (removed.length > 0) {
+        await backend.delete(removed);
+      }
+      this.remoteManifest = encoded.manifest;
+      this.remoteIsLegacy = false;
+    } catch (error: any) {
+      throw new Error(`上傳失敗：${error.message}`);
+    }
+  }
+
+  /**
+   * Files to write (changed data files and the manifest) and files to delete
+   */
+  private diffFiles({ manifest, files }: { manifest: BackupManifest; files: BackupFiles }): { changed: BackupFiles; removed: string[] } {
+    const previous = this.remoteManifest?.files || {};
+
+    const changed: BackupFiles = {};
+    Object.entries(manifest.files).forEach(([name, hash]) => {
+      if (previous[name] !== hash) changed[name] = files[name];
+    });
+    changed[MANIFEST_FILENAME] = files[MANIFEST_FILENAME];
+
+    const removed = Object.keys(previous).filter(name => !(name in manifest.files));
+    // Migrating from the single-file layout
+    if (this.remoteIsLegacy) {
+      removed.push(LEGACY_BACKUP_FILENAME);
+    }
+
+    return { changed, removed };
+  }
+
+  private async readManifest(): Promise<BackupManifest | null> {
+    const content = await this.backend.read(MANIFEST_FILENAME);
+    this.remoteManifest = content ? parseManifest(JSON.parse(content)) : null;
+    return this.remoteManifest;
+  }
+
+  /**
+   * Whether the current target keeps past versions of the backup
+   */
+  hasHistory(): boolean {
+    return !!this.backend.listRevisions && !!this.backend.openRevision;
+  }
+
+  /**
+   * Past versions of the cloud backup, newest first
+   * @param page - 1-based page number
+   */
+  async listRevisions(page: number, perPage: number): Promise<BackendRevision[]> {
+    if (!this.backend.listRevisions) return [];
+    return this.backend.listRevisions(page, perPage);
+  }
+
+  /**
+   * Reads the cloud backup as it was at a revision; does not touch the sync state
+   * @param includeImages - false to skip decoding the image shards (for summaries); with Gist
+   * their content is downloaded anyway, since a revision comes back with all its files
+   */
+  async loadRevision(id: string, includeImages = true): Promise<BackupFile> {
+    if (!this.backend.openRevision) {
+      throw new Error('這個同步服務不保留歷史版本');
+    }
+    const source = await this.backend.openRevision(id);
+    return (await readStoredBackup(source, { includeImages })).backup;
+  }
+
+  /**
+   * Download the backup from the selected backend
+   * Reads the sharded layout, or the legacy single file (BackupFile or bare StickerSet[])
+   * which is then rewritten as shards by the next upload
+   */
+  async download(): Promise<BackupFile> {
+    const backend = this.backend;
+    this.remoteManifest = null;
+    this.remoteIsLegacy = false;
+
+    try {
+      const stored = await readStoredBackup(backend);
+      this.remoteManifest = stored.manifest;
+      this.remoteIsLegacy = stored.legacy;
+      return stored.backup;
+    } catch (error: any) {
+      // Log the full error for debugging
+      console.error('Cloud download error:', error);
+
+      // If error already has a clear message, use it
+      if (error.message.includes('Token') ||
+          error.message.includes('權限') ||
+          error.message.includes('WebDAV') ||
+          error.message.includes('資料夾') ||
+          error.message.includes('資料格式') ||
+          error.message.includes('備份')) {
+        throw error;
+      }
+
+      // Provide more specific error messages
+      if (error.name === 'SyntaxError') {
+        throw new Error('下載失敗：雲端資料格式損壞');
+      }
+
+      if (error.message.includes('fetch')) {
+        throw new Error('下載失敗：網路連線問題，請檢查網路設定');
+      }
+
+      throw new Error(`下載失敗：${error.message}`);
+    }
+  }
+}
+
+// Singleton instance
+export const syncService = new SyncService();
@@ -1,11 +1,27 @@
 
 export type CollectionStatus = 'IDEATION' | 'IN_PROGRESS' | 'ARCHIVED';
 
+// Bilingual text fields that can be filled by machine translation
+export type TranslatableItemField = 'name' | 'enName';
+export type TranslatableSetField = 'title' | 'enTitle' | 'zhDesc' | 'enDesc';
+
 export interface StickerItem {
   id: string; // Use string for dnd-kit compatibility
   originalOrder: number;
   name: string;
+  enName?: string;
+  machineTranslated?: TranslatableItemField[]; // Filled by AI translation, cleared once edited by hand
+  imageId?: string; // Compressed preview, key into the images store
+  originalId?: string; // Lossless upload, key into the original_images store
+  /** @deprecated Legacy inline base64 preview, moved into the images store on load/import */
   imageUrl?: string;
+  updatedAt?: number; // Last local edit, missing on data created before sync merging
+}
+
+/** A set-level image (e.g. the LINE main or tab image), stored like item images */
+export interface SetImage {
+  imageId: string; // Compressed preview, key into the images store
+  originalId?: string; // Lossless upload, key into the original_images store
 }
 
 export interface StickerSet {
@@ -16,11 +32,16 @@ export interface StickerSet {
   series: string;
   zhDesc: string;
   enDesc: string;
+  machineTranslated?: TranslatableSetField[]; // Filled by AI translation, cleared once edited by hand
   storeUrl: string;
   status: CollectionStatus;
   type: 'Sticker' | 'Emoji';
   itemCount: number;
+  mainImage?: SetImage; // Store cover (LINE main.png)
+  tabImage?: SetImage; // Chat tab icon (LINE tab.png)
+  compressionProfile?: string; // Compression profile id for previews, the global default when missing
   createdAt: number;
+  updatedAt?: number; // Last local edit of the set or any of its items
   items: StickerItem[];
 }
 
@@ -0,0 +1,207 @@
+import { canvasToPngBlob, loadImageFromBlob } from './imageResize';
+
+export interface BackgroundRemovalOptions {
+  /** Background color as #rrggbb; null samples it from the image border */
+  keyColor: string | null;
+  /** 0-100: how far a color may be from the key color and still count as background */
+  tolerance: number;
+  /** true: only background connected to the image edges; false: every matching pixel, holes included */
+  floodFill: boolean;
+  /** Width in pixels of the soft edge left around the subject, 0 for a hard cut */
+  feather: number;
+}
+
+export const DEFAULT_BACKGROUND_REMOVAL: BackgroundRemovalOptions = {
+  keyColor: null,
+  tolerance: 12,
+  floodFill: true,
+  feather: 1
+};
+
+// Largest RGB distance (black to white)
+const MAX_DISTANCE = Math.sqrt(3 * 255 * 255);
+
+// Pixels at least this transparent already count as background
+const CLEAR_ALPHA = 16;
+
+type Rgb = [number, number, number];
+
+const parseHexColor = (hex: string): Rgb => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const toHexColor = ([r, g, b]: Rgb): string =>
+  `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`;
+
+/**
+ * Median color of the opaque border pixels, a robust guess for paper or white backgrounds
+ * @returns null when the whole border is already transparent
+ */
+export function sampleBorderColor({ data, width, height }: ImageData): Rgb | null {
+  const channels: [number[], number[], number[]] = [[], [], []];
+  const add = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    if (data[i + 3] < CLEAR_ALPHA) return;
+    channels[0].push(data[i]);
+    channels[1].push(data[i + 1]);
+    channels[2].push(data[i + 2]);
+  };
+
+  for (let x = 0; x < width; x++) {
+    add(x, 0);
+    add(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    add(0, y);
+    add(width - 1, y);
+  }
+
+  if (channels[0].length === 0) return null;
+  return channels.map(values => {
+    values.sort((a, b) => a - b);
+    return values[values.length >> 1];
+  }) as Rgb;
+}
+
+/**
+ * Makes the background of an image transparent, in place
+ *  - color key: pixels within `tolerance` of the key color
+ *  - flood fill: only those reachable from the edges through other background pixels
+ *  - feathering: alpha ramps up over `feather` pixels from the cut
+ * @returns The key color used, or null when there was nothing to remove
+ */
+export function removeBackgroundFromImageData(image: ImageData, options: BackgroundRemovalOptions): string | null {
+  const { data, width, height } = image;
+  const key = options.keyColor ? parseHexColor(options.keyColor) : sampleBorderColor(image);
+  if (!key) return null;
+
+  const limit = (Math.max(0, Math.min(100, options.tolerance)) / 100) * MAX_DISTANCE;
+  const limitSquared = limit * limit;
+  const pixelCount = width * height;
+
+  const matches = (p: number) => {
+    const i = p * 4;
+    if (data[i + 3] < CLEAR_ALPHA) return true;
+    const dr = data[i] - key[0];
+    const dg = data[i + 1] - key[1];
+    const db = data[i + 2] - key[2];
+    return dr * dr + dg * dg + db * db <= limitSquared;
+  };
+
+  // 1 = background
+  const background = new Uint8Array(pixelCount);
+
+  if (options.floodFill) {
+    const stack = new Int32Array(pixelCount);
+    let top = 0;
+    const visit = (p: number) => {
+      if (background[p] || !matches(p)) return;
+      background[p] = 1;
+      stack[top++] = p;
+    };
+
+    for (let x = 0; x < width; x++) {
+      visit(x);
+      visit((height - 1) * width + x);
+    }
+    for (let y = 1; y < height - 1; y++) {
+      visit(y * width);
+      visit(y * width + width - 1);
+    }
+
+    while (top > 0) {
+      const p = stack[--top];
+      const x = p % width;
+      if (x > 0) visit(p - 1);
+      if (x < width - 1) visit(p + 1);
+      if (p >= width) visit(p - width);
+      if (p < pixelCount - width) visit(p + width);
+    }
+  } else {
+    for (let p = 0; p < pixelCount; p++) {
+      if (matches(p)) background[p] = 1;
+    }
+  }
+
+  for (let p = 0; p < pixelCount; p++) {
+    if (background[p]) data[p * 4 + 3] = 0;
+  }
+
+  const feather = Math.max(0, Math.round(options.feather));
+  if (feather > 0) {
+    // Breadth-first distance from the cut, through the subject, up to `feather` steps
+    const distance = new Uint8Array(pixelCount);
+    let frontier: number[] = [];
+    const isEdge = (p: number) => {
+      const x = p % width;
+      return (x > 0 && background[p - 1])
+        || (x < width - 1 && background[p + 1])
+        || (p >= width && background[p - width])
+        || (p < pixelCount - width && background[p + width]);
+    };
+
+    for (let p = 0; p < pixelCount; p++) {
+      if (!background[p] && isEdge(p)) {
+        distance[p] = 1;
+        frontier.push(p);
+      }
+    }
+
+    for (let step = 1; step <= feather && frontier.length > 0; step++) {
+      const next: number[] = [];
+      frontier.forEach(p => {
+        const i = p * 4 + 3;
+        data[i] = Math.round(data[i] * step / (feather + 1));
+        if (step === feather) return;
+
+        const x = p % width;
+        const neighbours = [
+          x > 0 ? p - 1 : -1,
+          x < width - 1 ? p + 1 : -1,
+          p >= width ? p - width : -1,
+          p < pixelCount - width ? p + width : -1
+        ];
+        neighbours.forEach(n => {
+          if (n === -1 || background[n] || distance[n]) return;
+          distance[n] = step + 1;
+          next.push(n);
+        });
+      });
+      frontier = next;
+    }
+  }
+
+  return toHexColor(key);
+}
+
+/**
+ * Removes the background of an image blob on a canvas, entirely in the browser
+ * @param maxDimension - Downscales first (for quick previews); the full size is kept when omitted
+ * @returns The image as a PNG with transparency, and the key color used (null if nothing was removed)
+ */
+export async function removeBackground(
+  source: Blob,
+  options: BackgroundRemovalOptions,
+  maxDimension?: number
+): Promise<{ blob: Blob; keyColor: string | null }> {
+  const img = await loadImageFromBlob(source);
+  const scale = maxDimension ? Math.min(1, maxDimension / Math.max(img.width, img.height)) : 1;
+  const width = Math.max(1, Math.round(img.width * scale));
+  const height = Math.max(1, Math.round(img.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.drawImage(img, 0, 0, width, height);
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const keyColor = removeBackgroundFromImageData(imageData, options);
+  ctx.putImageData(imageData, 0, 0);
+
+  return { blob: await canvasToPngBlob(canvas), keyColor };
+}
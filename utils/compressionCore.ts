@@ -0,0 +1,60 @@
+/**
+ * Compression steps shared by the Web Worker and the main-thread fallback
+ * Nothing here touches the DOM, so the worker can import it.
+ */
+
+export type CompressionFormat = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export interface CompressionOptions {
+  format: CompressionFormat;
+  /** Bounding box in pixels; the image is never upscaled */
+  maxWidth?: number;
+  maxHeight?: number;
+  /** 0-1, for JPEG and WebP */
+  quality?: number;
+  /** Color painted behind the image; JPEG has no alpha, so it always gets one */
+  background?: string;
+  /** Round dimensions down to even numbers (LINE requirement) */
+  evenDimensions?: boolean;
+}
+
+// Warm Paper, the page background, so flattened previews blend in
+export const PAPER_BACKGROUND = '#FDFBF7';
+
+/**
+ * Output dimensions for an image of the given size
+ */
+export function compressedSize(width: number, height: number, options: CompressionOptions): { width: number; height: number } {
+  const scale = Math.min(
+    options.maxWidth ? options.maxWidth / width : 1,
+    options.maxHeight ? options.maxHeight / height : 1,
+    1
+  );
+  let outWidth = Math.max(1, Math.round(width * scale));
+  let outHeight = Math.max(1, Math.round(height * scale));
+
+  if (options.evenDimensions) {
+    outWidth = Math.max(2, outWidth - (outWidth % 2));
+    outHeight = Math.max(2, outHeight - (outHeight % 2));
+  }
+  return { width: outWidth, height: outHeight };
+}
+
+/**
+ * Draws the image scaled to the canvas size, on the background color when one applies
+ */
+export function drawCompressed(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  image: CanvasImageSource,
+  width: number,
+  height: number,
+  options: CompressionOptions
+): void {
+  const background = options.background ?? (options.format === 'image/jpeg' ? PAPER_BACKGROUND : undefined);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, width, height);
+}
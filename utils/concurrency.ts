@@ -0,0 +1,32 @@
+/**
+ * Runs an async task for every input with at most `limit` tasks in flight
+ * A failed task does not stop the others; each result is a value or the error it threw.
+ * @param onSettled - Called after each task with the number finished so far
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  inputs: T[],
+  limit: number,
+  task: (input: T, index: number) => Promise<R>,
+  onSettled?: (done: number, total: number) => void
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(inputs.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < inputs.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(inputs[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+      done++;
+      onSettled?.(done, inputs.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, inputs.length) }, worker));
+  return results;
+}
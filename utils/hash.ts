@@ -0,0 +1,12 @@
+/**
+ * Computes the SHA-256 digest of a blob
+ * @param blob - The binary content to hash
+ * @returns Promise with the lowercase hex digest
+ */
+export async function sha256Hex(blob: Blob): Promise<string> {
+  const buffer = await blob.arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
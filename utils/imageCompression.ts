@@ -1,167 +1,136 @@
-/**
- * Compresses an image file to reduce storage size
- * @param file - The image file to compress
- * @param maxWidth - Maximum width in pixels (default: 800)
- * @param quality - Image quality 0-1 (default: 0.85)
- * @returns Promise with compressed image as base64 data URL
- */
-export async function compressImage(
-  file: File,
-  maxWidth: number = 800,
-  quality: number = 0.85
-): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-
-    // Log original file size
-    const originalSizeKB = (file.size / 1024).toFixed(2);
-    console.log(`[壓縮] 原始檔案: ${file.name}, 大小: ${originalSizeKB} KB`);
-
-    reader.onload = (e) => {
-      const img = new Image();
-
-      img.onload = () => {
-        // Calculate new dimensions while maintaining aspect ratio
-        let width = img.width;
-        let height = img.height;
-
-        console.log(`[壓縮] 原始尺寸: ${width} x ${height}`);
-
-        if (width > maxWidth) {
-          height = (height * maxWidth) / width;
-          width = maxWidth;
-          console.log(`[壓縮] 調整後尺寸: ${width} x ${height}`);
-        }
-
-        // Create canvas for resizing
-        const canvas = document.createElement('canvas');
-        canvas.width = width;
-        canvas.height = height;
-
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          reject(new Error('Failed to get canvas context'));
-          return;
-        }
+import { CompressionOptions, compressedSize, drawCompressed } from './compressionCore';
+import { loadImageFromBlob } from './imageResize';
+import type { CompressionRequest, CompressionResponse } from './imageCompression.worker';
 
-        // Fill with page background color (#FDFBF7 - Warm Paper)
-        // This matches the website background for seamless integration
-        ctx.fillStyle = '#FDFBF7';
-        ctx.fillRect(0, 0, width, height);
+export type { CompressionFormat, CompressionOptions } from './compressionCore';
 
-        // Draw image on top of background
-        ctx.drawImage(img, 0, 0, width, height);
-
-        // Always convert to JPEG for better compression
-        const mimeType = 'image/jpeg';
-        console.log(`[壓縮] 輸出格式: ${mimeType} (背景色: #FDFBF7)`);
-
-        const compressedDataUrl = canvas.toDataURL(mimeType, quality);
-
-        // Calculate compressed size
-        const compressedSizeKB = ((compressedDataUrl.length * 3) / 4 / 1024).toFixed(2);
-        const ratio = ((parseFloat(compressedSizeKB) / parseFloat(originalSizeKB)) * 100).toFixed(1);
-        console.log(`[壓縮] 壓縮後大小: ${compressedSizeKB} KB (${ratio}% of original)`);
-        console.log(`[壓縮] 節省空間: ${(parseFloat(originalSizeKB) - parseFloat(compressedSizeKB)).toFixed(2)} KB`);
-
-        resolve(compressedDataUrl);
-      };
-
-      img.onerror = () => {
-        reject(new Error('Failed to load image'));
-      };
-
-      img.src = e.target?.result as string;
-    };
-
-    reader.onerror = () => {
-      reject(new Error('Failed to read file'));
-    };
-
-    reader.readAsDataURL(file);
-  });
-}
+// --- Web Worker pool ---
 
 /**
- * Compresses an existing base64 image (for already uploaded images)
- * @param dataUrl - The existing base64 data URL
- * @param maxWidth - Maximum width in pixels (default: 800)
- * @param quality - Image quality 0-1 (default: 0.85)
- * @returns Promise with compressed image as base64 data URL
+ * Number of compression workers: one core is left to the page
+ * Callers queueing many images can use it as their concurrency limit.
  */
-export async function compressExistingImage(
-  dataUrl: string,
-  maxWidth: number = 800,
-  quality: number = 0.85
-): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-
-    // Calculate original size
-    const originalSizeKB = ((dataUrl.length * 3) / 4 / 1024).toFixed(2);
-    console.log(`[重新壓縮] 原始大小: ${originalSizeKB} KB`);
+export const COMPRESSION_WORKER_COUNT = Math.max(
+  1,
+  Math.min(4, (typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2) - 1)
+);
+
+interface PooledWorker {
+  worker: Worker;
+  /** Requests sent to this worker and not answered yet */
+  inFlight: Set<number>;
+}
 
-    img.onload = () => {
-      // Calculate new dimensions while maintaining aspect ratio
-      let width = img.width;
-      let height = img.height;
+const workers: PooledWorker[] = [];
+// Set once a worker failed to start (e.g. no module worker support): the main thread takes over
+let workerUnavailable = false;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (blob: Blob) => void; reject: (error: Error) => void }>();
+
+class WorkerUnavailableError extends Error {}
+
+const supportsWorker = () =>
+  !workerUnavailable && typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+const startWorker = (): PooledWorker => {
+  const pooled: PooledWorker = {
+    worker: new Worker(new URL('./imageCompression.worker.ts', import.meta.url), { type: 'module' }),
+    inFlight: new Set()
+  };
+  pooled.worker.onmessage = (event: MessageEvent<CompressionResponse>) => {
+    const response = event.data;
+    pooled.inFlight.delete(response.id);
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+    if ('error' in response) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.blob);
+    }
+  };
+  pooled.worker.onerror = (event) => {
+    console.warn('[壓縮] Worker 無法使用，改在主執行緒壓縮:', event.message);
+    event.preventDefault();
+    workerUnavailable = true;
+    workers.splice(0).forEach(({ worker, inFlight }) => {
+      worker.terminate();
+      inFlight.forEach(id => {
+        pending.get(id)?.reject(new WorkerUnavailableError());
+        pending.delete(id);
+      });
+    });
+  };
+  workers.push(pooled);
+  return pooled;
+};
 
-      console.log(`[重新壓縮] 原始尺寸: ${width} x ${height}`);
+/**
+ * The least busy worker, starting a new one while the pool is not full
+ */
+const getWorker = (): PooledWorker => {
+  const idle = workers.find(pooled => pooled.inFlight.size === 0);
+  if (idle) return idle;
+  if (workers.length < COMPRESSION_WORKER_COUNT) return startWorker();
+  return workers.reduce((least, pooled) => pooled.inFlight.size < least.inFlight.size ? pooled : least);
+};
+
+const compressInWorker = (blob: Blob, options: CompressionOptions): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    const pooled = getWorker();
+    pending.set(id, { resolve, reject });
+    pooled.inFlight.add(id);
+    const request: CompressionRequest = { id, blob, options };
+    pooled.worker.postMessage(request);
+  });
 
-      const shouldResize = width > maxWidth;
-      if (shouldResize) {
-        height = (height * maxWidth) / width;
-        width = maxWidth;
-        console.log(`[重新壓縮] 調整後尺寸: ${width} x ${height}`);
-      }
+// --- Main thread fallback ---
 
-      // Create canvas for resizing
-      const canvas = document.createElement('canvas');
-      canvas.width = width;
-      canvas.height = height;
+async function compressOnMainThread(blob: Blob, options: CompressionOptions): Promise<Blob> {
+  const img = await loadImageFromBlob(blob);
+  const { width, height } = compressedSize(img.width, img.height, options);
 
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        reject(new Error('Failed to get canvas context'));
-        return;
-      }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  drawCompressed(ctx, img, width, height, options);
 
-      // Check if original image is PNG
-      const isPNG = dataUrl.startsWith('data:image/png');
-      if (isPNG) {
-        console.log(`[重新壓縮] 原始格式: PNG，強制轉換為 JPEG 以壓縮`);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((compressed) => {
+      if (compressed) {
+        resolve(compressed);
+      } else {
+        reject(new Error('Failed to encode image'));
       }
-
-      // Fill with page background color (#FDFBF7 - Warm Paper)
-      // This matches the website background for seamless integration
-      ctx.fillStyle = '#FDFBF7';
-      ctx.fillRect(0, 0, width, height);
-
-      // Draw image on top of background
-      ctx.drawImage(img, 0, 0, width, height);
-
-      console.log(`[重新壓縮] 輸出格式: JPEG (quality: ${quality}, 背景色: #FDFBF7)`);
-
-      // Convert to JPEG with compression
-      const compressedDataUrl = canvas.toDataURL('image/jpeg', quality);
-
-      const compressedSizeKB = ((compressedDataUrl.length * 3) / 4 / 1024).toFixed(2);
-      const ratio = ((parseFloat(compressedSizeKB) / parseFloat(originalSizeKB)) * 100).toFixed(1);
-      const savedKB = (parseFloat(originalSizeKB) - parseFloat(compressedSizeKB)).toFixed(2);
-      console.log(`[重新壓縮] 壓縮後大小: ${compressedSizeKB} KB (${ratio}% of original)`);
-      console.log(`[重新壓縮] ✅ 節省空間: ${savedKB} KB`);
-
-      resolve(compressedDataUrl);
-    };
-
-    img.onerror = () => {
-      reject(new Error('Failed to load image'));
-    };
-
-    img.src = dataUrl;
+    }, options.format, options.quality);
   });
 }
 
-// Note: Transparency checking function removed
-// All images are now converted to JPEG with page background color (#FDFBF7)
-// for optimal compression while maintaining visual consistency with the page
+/**
+ * Compresses an image to reduce storage size
+ * Runs in a pool of Web Workers with OffscreenCanvas when the browser supports it, on the main thread otherwise.
+ * @param file - The image file or blob to compress (an upload, an original or an existing preview)
+ * @param options - Output format, size limits and quality, usually from a compression profile
+ * @returns Promise with the compressed image
+ */
+export async function compressImage(file: Blob, options: CompressionOptions): Promise<Blob> {
+  let compressed: Blob;
+  try {
+    compressed = supportsWorker()
+      ? await compressInWorker(file, options)
+      : await compressOnMainThread(file, options);
+  } catch (error) {
+    if (!(error instanceof WorkerUnavailableError)) throw error;
+    compressed = await compressOnMainThread(file, options);
+  }
+
+  const originalKB = file.size / 1024;
+  const compressedKB = compressed.size / 1024;
+  console.log(`[壓縮] ${originalKB.toFixed(2)} KB → ${compressedKB.toFixed(2)} KB (${compressed.type}, ${((compressedKB / originalKB) * 100).toFixed(1)}%)`);
+  return compressed;
+}
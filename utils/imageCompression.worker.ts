@@ -0,0 +1,43 @@
+import { CompressionOptions, compressedSize, drawCompressed } from './compressionCore';
+
+export interface CompressionRequest {
+  id: number;
+  blob: Blob;
+  options: CompressionOptions;
+}
+
+export type CompressionResponse =
+  | { id: number; blob: Blob }
+  | { id: number; error: string };
+
+// Typed loosely: the project only includes the DOM lib, not WebWorker
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<CompressionRequest>) => void) | null;
+  postMessage: (message: CompressionResponse) => void;
+};
+
+/**
+ * Decodes, resizes and encodes off the main thread with OffscreenCanvas
+ */
+async function compress({ blob, options }: CompressionRequest): Promise<Blob> {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const { width, height } = compressedSize(bitmap.width, bitmap.height, options);
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+    drawCompressed(ctx, bitmap, width, height, options);
+    return await canvas.convertToBlob({ type: options.format, quality: options.quality });
+  } finally {
+    bitmap.close();
+  }
+}
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  compress(request)
+    .then(blob => scope.postMessage({ id: request.id, blob }))
+    .catch(error => scope.postMessage({ id: request.id, error: error?.message || 'Compression failed' }));
+};
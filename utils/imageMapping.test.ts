@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { StickerItem } from '../types';
+import { fileNumber, planImageMapping } from './imageMapping';
+
+const png = (name: string) => new File(['x'], name, { type: 'image/png' });
+
+const items = (count: number, withImages: number[] = []): StickerItem[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `item-${i}`,
+    originalOrder: i + 1,
+    name: `Image ${i + 1}`,
+    imageId: withImages.includes(i) ? `image-${i}` : undefined
+  }));
+
+describe('fileNumber', () => {
+  it('takes the last number of the base name', () => {
+    expect(fileNumber('01.png')).toBe(1);
+    expect(fileNumber('sticker 2024 - 07.png')).toBe(7);
+    expect(fileNumber('set-3/cover.png')).toBeNull();
+  });
+
+  it('ignores a retina scale suffix', () => {
+    expect(fileNumber('item_12@2x.png')).toBe(12);
+    expect(fileNumber('05@3X.png')).toBe(5);
+    expect(fileNumber('main@2x.png')).toBeNull();
+  });
+});
+
+describe('planImageMapping', () => {
+  it('places @2x files by their own number', () => {
+    const plan = planImageMapping([png('item_12@2x.png'), png('item_3@2x.png')], items(12));
+
+    expect(plan.assignments.map(a => [a.file.name, a.index, a.byNumber])).toEqual([
+      ['item_3@2x.png', 2, true],
+      ['item_12@2x.png', 11, true]
+    ]);
+    expect(plan.unmapped).toEqual([]);
+  });
+
+  it('fills empty slots with unnumbered files and reports what does not fit', () => {
+    const plan = planImageMapping(
+      [png('b.png'), png('a.png'), png('2.png'), png('02@2x.png'), png('9.png'), new File(['x'], 'notes.txt')],
+      items(3, [0])
+    );
+
+    expect(plan.assignments.map(a => [a.file.name, a.index, a.replacesImage])).toEqual([
+      ['2.png', 1, false],
+      ['a.png', 2, false]
+    ]);
+    expect(plan.unmapped.map(u => [u.file.name, u.reason])).toEqual([
+      ['02@2x.png', '編號 2 重複'],
+      ['9.png', '編號 9 超出範圍（共 3 格）'],
+      ['notes.txt', '不是圖片檔'],
+      ['b.png', '沒有剩餘的空白格']
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { StickerItem } from '../types';
+
+export interface ImageAssignment {
+  file: File;
+  itemId: string;
+  index: number; // Position of the item in the set
+  byNumber: boolean; // Matched by the number in the file name, otherwise placed in an empty slot
+  replacesImage: boolean;
+}
+
+export interface UnmappedFile {
+  file: File;
+  reason: string;
+}
+
+export interface ImageMappingPlan {
+  assignments: ImageAssignment[];
+  unmapped: UnmappedFile[];
+}
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|bmp)$/i;
+
+/**
+ * Whether a file looks like an image (folder picks often report an empty MIME type)
+ */
+export const isImageFile = (file: File): boolean =>
+  file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+
+/**
+ * Last number in the file name, without the extension and the retina scale suffix:
+ * `01.png` -> 1, `item_12@2x.png` -> 12
+ * Only the base name counts, not the folder it came from
+ */
+export const fileNumber = (name: string): number | null => {
+  const base = name.split('/').pop()!.replace(/\.[^.]+$/, '').replace(/@\d+x$/i, '');
+  const match = base.match(/(\d+)(?!.*\d)/);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+/**
+ * Natural order by file name (`2.png` before `10.png`)
+ */
+export const compareFileNames = (a: File, b: File): number =>
+  a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Maps dropped or picked files onto the items of a set
+ *  - a file whose name ends in a number goes to that slot (1-based)
+ *  - the remaining images fill the empty slots in natural file name order
+ */
+export function planImageMapping(files: File[], items: StickerItem[]): ImageMappingPlan {
+  const assignments: ImageAssignment[] = [];
+  const unmapped: UnmappedFile[] = [];
+  const taken = new Set<number>();
+  const unnumbered: File[] = [];
+
+  [...files].sort(compareFileNames).forEach(file => {
+    if (!isImageFile(file)) {
+      unmapped.push({ file, reason: '不是圖片檔' });
+      return;
+    }
+
+    const number = fileNumber(file.name);
+    if (number === null) {
+      unnumbered.push(file);
+    } else if (number < 1 || number > items.length) {
+      unmapped.push({ file, reason: `編號 ${number} 超出範圍（共 ${items.length} 格）` });
+    } else if (taken.has(number - 1)) {
+      unmapped.push({ file, reason: `編號 ${number} 重複` });
+    } else {
+      const index = number - 1;
+      taken.add(index);
+      assignments.push({ file, itemId: items[index].id, index, byNumber: true, replacesImage: !!items[index].imageId });
+    }
+  });
+
+  const emptySlots = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item, index }) => !item.imageId && !taken.has(index));
+
+  unnumbered.forEach((file, i) => {
+    const slot = emptySlots[i];
+    if (slot) {
+      assignments.push({ file, itemId: slot.item.id, index: slot.index, byNumber: false, replacesImage: false });
+    } else {
+      unmapped.push({ file, reason: '沒有剩餘的空白格' });
+    }
+  });
+
+  return { assignments: assignments.sort((a, b) => a.index - b.index), unmapped };
+}
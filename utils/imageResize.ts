@@ -0,0 +1,102 @@
+/**
+ * Loads an image from a URL (data URL or object URL)
+ * @param src - The image source
+ * @returns Promise with the decoded image element
+ */
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+}
+
+/**
+ * Decodes an image blob through a temporary object URL
+ * @param blob - The image content
+ * @returns Promise with the decoded image element
+ */
+export async function loadImageFromBlob(blob: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(blob);
+  try {
+    return await loadImage(url);
+  } finally {
+    // The decoded image stays drawable after the URL is revoked
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Converts a canvas to a PNG blob
+ */
+export function canvasToPngBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode PNG'));
+      }
+    }, 'image/png');
+  });
+}
+
+export interface ResizeOptions {
+  /** Target width in pixels */
+  width: number;
+  /** Target height in pixels */
+  height: number;
+  /**
+   * 'canvas' - output is exactly width x height, image centered with transparent padding
+   * 'inside' - output is the image scaled to fit inside width x height (never upscaled)
+   * 'cover' - output is exactly width x height, image scaled to fill it and cropped around the center
+   */
+  fit: 'canvas' | 'inside' | 'cover';
+  /** Round output dimensions down to even numbers (LINE requirement) */
+  evenDimensions?: boolean;
+}
+
+/**
+ * Resizes an image while keeping its aspect ratio and transparency
+ * @param source - The image blob
+ * @param options - Target size and fit mode
+ * @returns Promise with the resized image as a PNG blob
+ */
+export async function resizeToPng(source: Blob, options: ResizeOptions): Promise<Blob> {
+  const img = await loadImageFromBlob(source);
+
+  const scale = options.fit === 'cover'
+    ? Math.max(options.width / img.width, options.height / img.height)
+    : Math.min(options.width / img.width, options.height / img.height, 1);
+  const drawWidth = Math.max(1, Math.round(img.width * scale));
+  const drawHeight = Math.max(1, Math.round(img.height * scale));
+
+  let canvasWidth = options.fit === 'inside' ? drawWidth : options.width;
+  let canvasHeight = options.fit === 'inside' ? drawHeight : options.height;
+
+  if (options.evenDimensions) {
+    canvasWidth = Math.max(2, canvasWidth - (canvasWidth % 2));
+    canvasHeight = Math.max(2, canvasHeight - (canvasHeight % 2));
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = canvasWidth;
+  canvas.height = canvasHeight;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(
+    img,
+    Math.round((canvasWidth - drawWidth) / 2),
+    Math.round((canvasHeight - drawHeight) / 2),
+    drawWidth,
+    drawHeight
+  );
+
+  return canvasToPngBlob(canvas);
+}
@@ -0,0 +1,5 @@
+/**
+ * Empty names and the "Image N" placeholders given to new slots count as unnamed
+ */
+export const isDefaultItemName = (name: string | undefined): boolean =>
+  !name || !name.trim() || /^Image \d+$/.test(name.trim());
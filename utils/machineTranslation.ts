@@ -0,0 +1,16 @@
+/**
+ * Marks a field as machine-translated
+ */
+export function addMachineFlag<T extends string>(flags: T[] | undefined, field: T): T[] {
+  return flags?.includes(field) ? flags : [...(flags || []), field];
+}
+
+/**
+ * Clears the machine-translated flag of a field once a human edits it
+ * @returns The remaining flags, or undefined when none are left
+ */
+export function clearMachineFlag<T extends string>(flags: T[] | undefined, field: T): T[] | undefined {
+  if (!flags?.includes(field)) return flags;
+  const remaining = flags.filter(f => f !== field);
+  return remaining.length > 0 ? remaining : undefined;
+}
@@ -0,0 +1,124 @@
+import { canvasToPngBlob, loadImageFromBlob } from './imageResize';
+
+export interface OutlineOptions {
+  /** Outline width in pixels around the silhouette, 0 for none */
+  strokeWidth: number;
+  /** Outline color as #rrggbb */
+  strokeColor: string;
+  /** Transparent margin in pixels added on every side, outside the outline */
+  padding: number;
+  /** Crops to the visible content before adding the outline and padding */
+  trim: boolean;
+}
+
+/** LINE style: white outline and a 10 px safe margin */
+export const DEFAULT_OUTLINE: OutlineOptions = {
+  strokeWidth: 6,
+  strokeColor: '#ffffff',
+  padding: 10,
+  trim: true
+};
+
+export const MAX_STROKE_WIDTH = 24;
+
+// Pixels at most this transparent do not count as content when trimming
+const CONTENT_ALPHA = 8;
+
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  return { canvas, ctx };
+};
+
+/**
+ * Bounding box of the pixels that are not (almost) fully transparent
+ * @returns null for an empty image
+ */
+export function contentBounds({ data, width, height }: ImageData): Bounds | null {
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] <= CONTENT_ALPHA) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+
+  return maxX === -1 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Offsets covering a disc of the given radius; stamping the silhouette at each one
+ * grows it by the radius with round corners
+ */
+const discOffsets = (radius: number): [number, number][] => {
+  const offsets: [number, number][] = [];
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      if (dx * dx + dy * dy <= radius * radius) offsets.push([dx, dy]);
+    }
+  }
+  return offsets;
+};
+
+/**
+ * Adds an outline around the alpha silhouette, then uniform padding, optionally trimming first
+ * Output size: content (or the whole image) + 2 x (stroke + padding) on each axis.
+ * @param maxDimension - Downscales first (for quick previews); stroke and padding scale along
+ * @returns The image as a PNG with transparency
+ */
+export async function outlineSticker(source: Blob, options: OutlineOptions, maxDimension?: number): Promise<Blob> {
+  const img = await loadImageFromBlob(source);
+  const scale = maxDimension ? Math.min(1, maxDimension / Math.max(img.width, img.height)) : 1;
+  const width = Math.max(1, Math.round(img.width * scale));
+  const height = Math.max(1, Math.round(img.height * scale));
+  const stroke = Math.round(Math.min(Math.max(options.strokeWidth, 0), MAX_STROKE_WIDTH) * scale);
+  const padding = Math.round(Math.max(options.padding, 0) * scale);
+
+  const { canvas: sourceCanvas, ctx: sourceCtx } = createCanvas(width, height);
+  sourceCtx.drawImage(img, 0, 0, width, height);
+
+  const bounds = options.trim
+    ? contentBounds(sourceCtx.getImageData(0, 0, width, height))
+    : { x: 0, y: 0, width, height };
+  if (!bounds) {
+    throw new Error('圖片是全透明的');
+  }
+
+  const margin = stroke + padding;
+  const { canvas, ctx } = createCanvas(bounds.width + margin * 2, bounds.height + margin * 2);
+  const originX = margin - bounds.x;
+  const originY = margin - bounds.y;
+
+  if (stroke > 0) {
+    // Silhouette in the stroke color, keeping the soft alpha of the edges
+    const { canvas: silhouette, ctx: silhouetteCtx } = createCanvas(width, height);
+    silhouetteCtx.drawImage(sourceCanvas, 0, 0);
+    silhouetteCtx.globalCompositeOperation = 'source-in';
+    silhouetteCtx.fillStyle = options.strokeColor;
+    silhouetteCtx.fillRect(0, 0, width, height);
+
+    discOffsets(stroke).forEach(([dx, dy]) => ctx.drawImage(silhouette, originX + dx, originY + dy));
+  }
+
+  ctx.drawImage(sourceCanvas, originX, originY);
+  return canvasToPngBlob(canvas);
+}